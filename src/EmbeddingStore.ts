@@ -0,0 +1,156 @@
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import { cacheDir, readCacheFile, writeCacheFile } from "./cache.js";
+import type { EmbeddingProvider } from "./embeddings.js";
+import type { Learning } from "./repository.js";
+
+interface EmbeddingEntry {
+  /** Hash of the embedded text, to detect edits made outside `write` */
+  hash: string;
+  vector: number[];
+}
+
+interface EmbeddingFile {
+  provider: string;
+  /** Model of a provider fitted over the learnings */
+  version?: string;
+  entries: Record<string, EmbeddingEntry>;
+}
+
+/**
+ * Text of a learning that gets embedded
+ */
+function embeddingText(learning: Learning): string {
+  const { title, topic, tags } = learning.metadata;
+  return [title, topic, tags.join(" "), learning.content].join("\n");
+}
+
+function hashText(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+/**
+ * Learning vectors stored in `.cache/embeddings.json` next to the learnings.
+ *
+ * Vectors are only recomputed for learnings whose text changed, and are
+ * discarded wholesale when the provider or its fitted model changes.
+ * Providers fitted over the learnings are fitted on the whole `corpus`
+ * before a written learning is embedded.
+ */
+export class EmbeddingStore {
+  private stored: EmbeddingFile | null = null;
+  private readonly path: string;
+
+  constructor(
+    baseDir: string,
+    private readonly provider: EmbeddingProvider,
+    private readonly corpus: () => Promise<Learning[]>,
+  ) {
+    this.path = join(cacheDir(baseDir), "embeddings.json");
+  }
+
+  /**
+   * Embed a query with the store's provider. Call after `vectors`, which
+   * fits the provider.
+   */
+  async embedQuery(query: string): Promise<number[]> {
+    const [vector] = await this.provider.embed([query]);
+    return vector ?? [];
+  }
+
+  /**
+   * Return vectors for every learning, embedding any that are missing or
+   * stale, and dropping vectors of learnings no longer present
+   */
+  async vectors(learnings: Learning[]): Promise<Map<string, number[]>> {
+    await this.provider.fit?.(learnings.map(embeddingText));
+    const entries = await this.load();
+    const current = new Set(learnings.map((l) => l.filename));
+    let dirty = false;
+
+    for (const filename of entries.keys()) {
+      if (!current.has(filename)) {
+        entries.delete(filename);
+        dirty = true;
+      }
+    }
+
+    const stale = learnings
+      .map((learning) => {
+        const text = embeddingText(learning);
+        return { filename: learning.filename, text, hash: hashText(text) };
+      })
+      .filter(({ filename, hash }) => entries.get(filename)?.hash !== hash);
+
+    if (stale.length > 0) {
+      const vectors = await this.provider.embed(stale.map((s) => s.text));
+      stale.forEach(({ filename, hash }, i) => {
+        entries.set(filename, { hash, vector: vectors[i] ?? [] });
+      });
+      dirty = true;
+    }
+
+    if (dirty) {
+      await this.persist(entries);
+    }
+
+    return new Map(
+      learnings.map((l) => [l.filename, entries.get(l.filename)?.vector ?? []]),
+    );
+  }
+
+  /**
+   * Embed a single learning after it was written
+   */
+  async upsert(learning: Learning): Promise<void> {
+    if (this.provider.fit) {
+      await this.vectors(await this.corpus());
+      return;
+    }
+    const entries = await this.load();
+    const text = embeddingText(learning);
+    const hash = hashText(text);
+    if (entries.get(learning.filename)?.hash === hash) return;
+
+    const [vector] = await this.provider.embed([text]);
+    entries.set(learning.filename, { hash, vector: vector ?? [] });
+    await this.persist(entries);
+  }
+
+  /**
+   * Forget the vector of a deleted learning
+   */
+  async remove(filename: string): Promise<void> {
+    if (this.provider.fit) {
+      await this.vectors(await this.corpus());
+      return;
+    }
+    const entries = await this.load();
+    if (entries.delete(filename)) {
+      await this.persist(entries);
+    }
+  }
+
+  private async load(): Promise<Map<string, EmbeddingEntry>> {
+    const { name: provider, version } = this.provider;
+    this.stored ??= (await readCacheFile<EmbeddingFile>(this.path)) ?? {
+      provider,
+      version,
+      entries: {},
+    };
+    // The provider may have been refitted since
+    if (this.stored.provider !== provider || this.stored.version !== version) {
+      this.stored = { provider, version, entries: {} };
+    }
+    return new Map(Object.entries(this.stored.entries));
+  }
+
+  private async persist(entries: Map<string, EmbeddingEntry>): Promise<void> {
+    this.stored = {
+      provider: this.provider.name,
+      version: this.provider.version,
+      entries: Object.fromEntries(entries),
+    };
+    await writeCacheFile(this.path, this.stored);
+  }
+}
@@ -0,0 +1,431 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileSystemRepository } from "./FileSystemRepository.js";
+import {
+  FilenameError,
+  type FilenameErrorCode,
+  MAX_FILENAME_LENGTH,
+} from "./filenames.js";
+import { LearningIndex } from "./LearningIndex.js";
+
+let tempDir: string;
+let repository: FileSystemRepository;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "learnings-repo-test-"));
+  repository = new FileSystemRepository(tempDir);
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const HAND_EDITED = `---
+# edited by hand
+title: "Git: rebase onto main"
+topic: git
+tags:
+  - git
+  - "rebase, interactive"
+created: 2025-10-03
+related: []
+reviewer: alice
+---
+
+# Git: rebase onto main
+
+Rebase commits.
+`;
+
+test("quoted values, block lists and extra keys are parsed", async () => {
+  await writeFile(join(tempDir, "git-rebase.md"), HAND_EDITED);
+
+  const learning = await repository.read("git-rebase.md");
+
+  expect(learning.metadata.title).toBe("Git: rebase onto main");
+  expect(learning.metadata.tags).toEqual(["git", "rebase, interactive"]);
+  expect(learning.metadata.created).toBe("2025-10-03");
+  expect(learning.content).toBe("# Git: rebase onto main\n\nRebase commits.");
+});
+
+test("hand-edited file survives an unchanged round-trip", async () => {
+  const filepath = join(tempDir, "git-rebase.md");
+  await writeFile(filepath, HAND_EDITED);
+
+  const learning = await repository.read("git-rebase.md");
+  await repository.write("git-rebase.md", learning.metadata, learning.content);
+
+  expect(await readFile(filepath, "utf-8")).toBe(HAND_EDITED);
+});
+
+test("changed fields keep comments, styles and unknown keys", async () => {
+  const filepath = join(tempDir, "git-rebase.md");
+  await writeFile(filepath, HAND_EDITED);
+
+  const learning = await repository.read("git-rebase.md");
+  await repository.write(
+    "git-rebase.md",
+    {
+      ...learning.metadata,
+      tags: [...learning.metadata.tags, "history"],
+      updated: "2025-11-01",
+    },
+    learning.content,
+  );
+
+  const markdown = await readFile(filepath, "utf-8");
+  expect(markdown).toContain("# edited by hand");
+  expect(markdown).toContain("reviewer: alice");
+  expect(markdown).toContain("tags:\n  - git\n");
+  expect(markdown).toContain("created: 2025-10-03\nupdated: 2025-11-01\n");
+  expect(markdown).toEndWith("Rebase commits.\n");
+
+  const updated = await repository.read("git-rebase.md");
+  expect(updated.metadata.tags).toEqual([
+    "git",
+    "rebase, interactive",
+    "history",
+  ]);
+});
+
+test("CRLF line endings are read and preserved", async () => {
+  const filepath = join(tempDir, "git-rebase.md");
+  const crlf = HAND_EDITED.replace(/\n/g, "\r\n");
+  await writeFile(filepath, crlf);
+
+  const learning = await repository.read("git-rebase.md");
+  expect(learning.metadata.title).toBe("Git: rebase onto main");
+
+  await repository.write(
+    "git-rebase.md",
+    { ...learning.metadata, topic: "vcs" },
+    learning.content,
+  );
+
+  const markdown = await readFile(filepath, "utf-8");
+  expect(markdown).toContain("topic: vcs\r\n");
+  expect(markdown.replace(/\r\n/g, "")).not.toContain("\n");
+});
+
+test("new learnings quote values that need it", async () => {
+  await repository.write(
+    "yaml-quoting.md",
+    {
+      title: "Key: value",
+      topic: "yaml",
+      tags: ["a, b", "c"],
+      created: "2025-10-03",
+      related: [],
+    },
+    "# Key: value",
+  );
+
+  const markdown = await readFile(join(tempDir, "yaml-quoting.md"), "utf-8");
+  expect(markdown).toStartWith(
+    '---\ntitle: "Key: value"\ntopic: yaml\ntags: ["a, b", c]\ncreated: 2025-10-03\nrelated: []\n---\n\n',
+  );
+
+  const learning = await repository.read("yaml-quoting.md");
+  expect(learning.metadata.title).toBe("Key: value");
+  expect(learning.metadata.tags).toEqual(["a, b", "c"]);
+});
+
+test("invalid YAML front matter is reported", async () => {
+  await writeFile(
+    join(tempDir, "broken.md"),
+    "---\ntitle: [unclosed\ntopic: x\n---\n\nBody",
+  );
+
+  await expect(repository.read("broken.md")).rejects.toThrow(
+    "Invalid learning front matter",
+  );
+});
+
+test("search answers from the on-disk index and re-parses changed files", async () => {
+  const metadata = {
+    title: "Git Rebase",
+    topic: "git",
+    tags: ["git"],
+    created: "2025-10-03",
+    related: [],
+  };
+  await repository.write("git-rebase.md", metadata, "# Git Rebase");
+  await repository.write(
+    "git-merge.md",
+    { ...metadata, title: "Git Merge" },
+    "# Git Merge",
+  );
+  await repository.search({});
+
+  // Tamper with the cached entry of an unchanged file: it must not be re-read
+  const indexPath = join(tempDir, ".cache", "index.json");
+  const index = JSON.parse(await readFile(indexPath, "utf-8"));
+  index.entries["git-merge.md"].metadata.title = "From Index";
+  await writeFile(indexPath, JSON.stringify(index));
+
+  // Change another file behind the repository's back
+  await writeFile(
+    join(tempDir, "git-rebase.md"),
+    "---\ntitle: Interactive Rebase\ntopic: git\ncreated: 2025-10-03\n---\n\nBody",
+  );
+
+  const fresh = new FileSystemRepository(tempDir);
+  const results = await fresh.search({});
+  const titles = results.map((r) => r.title).sort();
+
+  expect(titles).toEqual(["From Index", "Interactive Rebase"]);
+  expect(await readFile(join(tempDir, ".cache", ".gitignore"), "utf-8")).toBe(
+    "*\n",
+  );
+});
+
+test("deleted learnings go to the trash and can be restored or purged", async () => {
+  await writeFile(join(tempDir, "git-rebase.md"), HAND_EDITED);
+  await repository.delete("git-rebase.md");
+
+  expect(await repository.listFiles()).toEqual([]);
+  const [item] = await repository.listTrash();
+  expect(item).toMatchObject({
+    filename: "git-rebase.md",
+    title: "Git: rebase onto main",
+  });
+
+  // Restoring brings back the file exactly as it was
+  expect(await repository.restoreFromTrash(item?.id ?? "")).toBe(
+    "git-rebase.md",
+  );
+  expect(await readFile(join(tempDir, "git-rebase.md"), "utf-8")).toBe(
+    HAND_EDITED,
+  );
+  expect(await repository.listTrash()).toEqual([]);
+  expect((await repository.search({})).map((r) => r.filename)).toEqual([
+    "git-rebase.md",
+  ]);
+
+  await repository.delete("git-rebase.md");
+  const purged = await repository.purgeTrash();
+  expect(purged.map((i) => i.filename)).toEqual(["git-rebase.md"]);
+  expect(await repository.listTrash()).toEqual([]);
+  await expect(repository.restoreFromTrash(item?.id ?? "")).rejects.toThrow(
+    "in the trash",
+  );
+});
+
+test("restoring does not overwrite a learning with the same name", async () => {
+  await writeFile(join(tempDir, "git-rebase.md"), HAND_EDITED);
+  await repository.delete("git-rebase.md");
+  await writeFile(join(tempDir, "git-rebase.md"), HAND_EDITED);
+
+  const [item] = await repository.listTrash();
+  await expect(repository.restoreFromTrash(item?.id ?? "")).rejects.toThrow(
+    "already exists",
+  );
+});
+
+test("trash items older than the retention period are purged", async () => {
+  await writeFile(join(tempDir, "old.md"), HAND_EDITED);
+  await repository.delete("old.md");
+  const [item] = await repository.listTrash();
+
+  // Backdate the deletion
+  const metaPath = join(tempDir, ".trash", `${item?.id}.json`);
+  const meta = JSON.parse(await readFile(metaPath, "utf-8"));
+  meta.deletedAt = "2000-01-01T00:00:00.000Z";
+  await writeFile(metaPath, JSON.stringify(meta));
+
+  const keeping = new FileSystemRepository(tempDir, { trashRetentionDays: 0 });
+  expect(await keeping.listTrash()).toHaveLength(1);
+  expect(await repository.listTrash()).toEqual([]);
+});
+
+test("malformed learnings are left out of search and reported", async () => {
+  await writeFile(join(tempDir, "git-rebase.md"), HAND_EDITED);
+  await writeFile(join(tempDir, "broken.md"), "---\ntitle: [\n---\n");
+  await writeFile(join(tempDir, "no-front-matter.md"), "# Just text\n");
+
+  expect((await repository.search({})).map((r) => r.filename)).toEqual([
+    "git-rebase.md",
+  ]);
+  const errors = await repository.parseErrors();
+  expect(errors.map((e) => e.filename).sort()).toEqual([
+    "broken.md",
+    "no-front-matter.md",
+  ]);
+  expect(errors.find((e) => e.filename === "no-front-matter.md")?.message).toBe(
+    "Invalid learning format: missing front matter",
+  );
+
+  // Once fixed, the file is listed again and no longer reported
+  await writeFile(join(tempDir, "broken.md"), HAND_EDITED);
+  expect((await repository.search({})).length).toBe(2);
+  expect((await repository.parseErrors()).map((e) => e.filename)).toEqual([
+    "no-front-matter.md",
+  ]);
+});
+
+test("files that vanish or can't be read during a refresh are skipped", async () => {
+  await writeFile(join(tempDir, "git-rebase.md"), HAND_EDITED);
+  await writeFile(join(tempDir, "git-merge.md"), HAND_EDITED);
+  await mkdir(join(tempDir, "folder.md"));
+  const index = new LearningIndex(tempDir);
+  expect(await index.refresh(["git-rebase.md", "git-merge.md"])).toHaveLength(
+    2,
+  );
+
+  // Listed, then deleted (e.g. stashed by a sync) before it was read
+  await rm(join(tempDir, "git-merge.md"));
+  const learnings = await index.refresh([
+    "git-rebase.md",
+    "git-merge.md",
+    "gone.md",
+    "folder.md",
+  ]);
+  expect(learnings.map((l) => l.filename)).toEqual(["git-rebase.md"]);
+  expect(index.parseErrors().map((e) => e.filename)).toEqual(["folder.md"]);
+});
+
+test("learnings in folders are listed, read and written by relative path", async () => {
+  const metadata = {
+    title: "Git Rebase",
+    topic: "git",
+    tags: ["git"],
+    created: "2025-10-03",
+    related: [],
+  };
+  await repository.write("git/rebase.md", metadata, "# Git Rebase");
+  await repository.write("infra/k8s/pods.md", metadata, "# Pods");
+  await writeFile(join(tempDir, "git", "README.md"), "# Git learnings");
+
+  expect((await repository.listFiles()).sort()).toEqual([
+    "git/rebase.md",
+    "infra/k8s/pods.md",
+  ]);
+  expect((await repository.read("git/rebase.md")).metadata.title).toBe(
+    "Git Rebase",
+  );
+  expect((await repository.search({})).map((r) => r.filename).sort()).toEqual([
+    "git/rebase.md",
+    "infra/k8s/pods.md",
+  ]);
+
+  // Folders left empty are removed
+  await repository.rename("infra/k8s/pods.md", "k8s-pods.md");
+  await repository.delete("k8s-pods.md");
+  expect(existsSync(join(tempDir, "infra"))).toBe(false);
+  const [item] = await repository.listTrash();
+  expect(await repository.restoreFromTrash(item?.id ?? "")).toBe("k8s-pods.md");
+});
+
+test("removing empty folders stops at a relative learnings folder", async () => {
+  const cwd = process.cwd();
+  process.chdir(tempDir);
+  try {
+    const relativeRepository = new FileSystemRepository("learnings");
+    await relativeRepository.write(
+      "infra/k8s/pods.md",
+      {
+        title: "Pods",
+        topic: "k8s",
+        tags: [],
+        created: "2025-10-03",
+        related: [],
+      },
+      "# Pods",
+    );
+    await relativeRepository.rename("infra/k8s/pods.md", "k8s/pods.md");
+    await relativeRepository.rename("k8s/pods.md", "pods.md");
+
+    expect(existsSync(join(tempDir, "learnings", "infra"))).toBe(false);
+    expect(existsSync(join(tempDir, "learnings", "k8s"))).toBe(false);
+    expect(await relativeRepository.listFiles()).toEqual(["pods.md"]);
+  } finally {
+    process.chdir(cwd);
+  }
+});
+
+test("filenames the filename policy rejects are refused", async () => {
+  const metadata = {
+    title: "Escape",
+    topic: "security",
+    tags: [],
+    created: "2025-10-03",
+    related: [],
+  };
+  const refused: [string, FilenameErrorCode][] = [
+    ["../escape.md", "traversal"],
+    ["git/../../escape.md", "traversal"],
+    ["git/../escape.md", "traversal"],
+    ["/tmp/escape.md", "absolute"],
+    ["C:\\escape.md", "absolute"],
+    [".trash/escape.md", "hidden"],
+    [".git/config", "hidden"],
+    ["README.md", "reserved"],
+    ["notes.txt", "extension"],
+    ["escape", "extension"],
+    ["", "empty"],
+    ["line\nbreak.md", "invalid-character"],
+    ["delete\u007f.md", "invalid-character"],
+    ["next-line\u0085.md", "invalid-character"],
+    [`${"a".repeat(MAX_FILENAME_LENGTH)}.md`, "too-long"],
+  ];
+  for (const [filename, code] of refused) {
+    for (const attempt of [
+      () => repository.read(filename),
+      () => repository.write(filename, metadata, ""),
+      () => repository.delete(filename),
+    ]) {
+      const error = await attempt().catch((e) => e);
+      expect(error).toBeInstanceOf(FilenameError);
+      expect(error).toMatchObject({ code, filename });
+    }
+  }
+
+  // Leading "./" and repeated slashes are normalized
+  await repository.write("./git//escape.md", metadata, "# Escape");
+  expect(await repository.listFiles()).toEqual(["git/escape.md"]);
+});
+
+test("read-only repositories are read but refuse changes", async () => {
+  await writeFile(join(tempDir, "git-rebase.md"), HAND_EDITED);
+  const readOnly = new FileSystemRepository(tempDir, { readOnly: true });
+
+  expect((await readOnly.search({})).map((r) => r.filename)).toEqual([
+    "git-rebase.md",
+  ]);
+  const learning = await readOnly.read("git-rebase.md");
+  await expect(
+    readOnly.write("git-new.md", learning.metadata, learning.content),
+  ).rejects.toThrow("read-only");
+  await expect(readOnly.delete("git-rebase.md")).rejects.toThrow("read-only");
+  await expect(readOnly.rename("git-rebase.md", "git-onto.md")).rejects.toThrow(
+    "read-only",
+  );
+  expect(await repository.listFiles()).toEqual(["git-rebase.md"]);
+});
+
+test("the README index is rebuilt after every change", async () => {
+  const indexed = new FileSystemRepository(tempDir, { readmeIndex: true });
+  const readme = () => readFile(join(tempDir, "README.md"), "utf-8");
+
+  await writeFile(join(tempDir, "git-rebase.md"), HAND_EDITED);
+  const { metadata } = await indexed.read("git-rebase.md");
+  await indexed.write(
+    "typescript/narrowing.md",
+    { ...metadata, title: "Narrow unions", topic: "typescript", tags: [] },
+    "# Narrow unions",
+  );
+  expect(await readme()).toContain("2 learnings in 2 topics.");
+  expect(await readme()).toContain("](./typescript/narrowing.md)");
+  expect(await indexed.listFiles()).toEqual([
+    "git-rebase.md",
+    "typescript/narrowing.md",
+  ]);
+
+  await indexed.delete("typescript/narrowing.md");
+  expect(await readme()).toContain("1 learning in 1 topic.");
+  expect(await readme()).not.toContain("typescript");
+  expect(await indexed.updateIndex()).toBe(false);
+});
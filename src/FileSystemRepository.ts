@@ -1,116 +1,149 @@
-import { mkdir, readdir, readFile, unlink, writeFile } from "node:fs/promises";
 import { existsSync } from "node:fs";
-import { join } from "node:path";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rmdir,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { dirname, join, resolve, sep } from "node:path";
+import { EmbeddingStore } from "./EmbeddingStore.js";
+import {
+  cosineSimilarity,
+  type EmbeddingProvider,
+  LocalEmbeddingProvider,
+} from "./embeddings.js";
+import { checkFilename } from "./filenames.js";
+import { parseLearning, serializeLearning } from "./front-matter.js";
+import { LearningIndex } from "./LearningIndex.js";
+import { README_FILENAME, renderReadme } from "./readme.js";
 import type {
   Learning,
   LearningMetadata,
+  ParseError,
   Repository,
   SearchOptions,
   SearchResult,
+  TrashedLearning,
 } from "./repository.js";
+import { rank, snippet, tokenize } from "./search.js";
+import { Trash } from "./Trash.js";
+
+/** Semantic matches below this cosine similarity are dropped */
+const MIN_SIMILARITY = 0.1;
+
+export interface FileSystemRepositoryOptions {
+  /** Embedding provider for semantic search (default: offline LSA) */
+  embeddingProvider?: EmbeddingProvider;
+  /** Days deleted learnings stay in the trash (default: 30, 0 keeps them) */
+  trashRetentionDays?: number;
+  /** Refuse every change, e.g. for a shared repository others maintain */
+  readOnly?: boolean;
+  /** Rebuild the README.md index after every change (default: false) */
+  readmeIndex?: boolean;
+}
 
 /**
- * File system based repository implementation
+ * File system based repository implementation.
+ *
+ * Learnings may be organized in folders (e.g. `git/rebase.md`); filenames
+ * are paths relative to the base directory, with `/` separators. Dot
+ * folders (`.cache`, `.trash`, `.git`) and `README.md` files are not
+ * learnings.
  */
 export class FileSystemRepository implements Repository {
-  constructor(protected readonly baseDir: string) {}
+  private readonly index: LearningIndex;
+  private readonly embeddings: EmbeddingStore;
+  private readonly trash: Trash;
+  private readonly readOnly: boolean;
+  private readonly readmeIndex: boolean;
 
-  /**
-   * Parse front matter and content from markdown
-   */
-  private parseLearning(markdown: string): {
-    metadata: LearningMetadata;
-    content: string;
-  } {
-    const frontMatterMatch = markdown.match(
-      /^---\n([\s\S]*?)\n---\n([\s\S]*)$/,
+  constructor(
+    protected readonly baseDir: string,
+    options: FileSystemRepositoryOptions = {},
+  ) {
+    this.index = new LearningIndex(baseDir);
+    this.embeddings = new EmbeddingStore(
+      baseDir,
+      options.embeddingProvider ?? new LocalEmbeddingProvider(),
+      () => this.listLearnings(),
     );
+    this.trash = new Trash(baseDir, options.trashRetentionDays ?? 30);
+    this.readOnly = options.readOnly ?? false;
+    this.readmeIndex = options.readmeIndex ?? false;
+  }
 
-    if (!frontMatterMatch) {
-      throw new Error("Invalid learning format: missing front matter");
+  /**
+   * Throw if the repository is read-only
+   */
+  private assertWritable(): void {
+    if (this.readOnly) {
+      throw new Error(`Learnings in ${this.baseDir} are read-only`);
     }
+  }
 
-    const frontMatter = frontMatterMatch[1];
-    const content = frontMatterMatch[2];
-
-    if (!frontMatter) {
-      throw new Error("Invalid learning format: empty front matter");
+  async listFiles(): Promise<string[]> {
+    if (!existsSync(this.baseDir)) {
+      return [];
     }
 
-    // Parse YAML front matter (simple parser for our known structure)
-    const metadata: Partial<LearningMetadata> = {};
-
-    frontMatter.split("\n").forEach((line) => {
-      const match = line.match(/^(\w+):\s*(.+)$/);
-      if (!match) return;
-
-      const key = match[1];
-      const value = match[2];
-
-      if (!key || !value) return;
-
-      if (key === "tags" || key === "related") {
-        // Parse arrays
-        metadata[key] = value
-          .replace(/^\[|\]$/g, "")
-          .split(",")
-          .map((s) => s.trim())
-          .filter(Boolean);
-      } else {
-        (metadata as Record<string, string>)[key] = value.trim();
+    const files: string[] = [];
+    const walk = async (folder: string) => {
+      const entries = await readdir(join(this.baseDir, folder), {
+        withFileTypes: true,
+      });
+      for (const entry of entries) {
+        if (entry.name.startsWith(".")) continue;
+        const filename = folder ? `${folder}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(filename);
+        } else if (
+          entry.name.endsWith(".md") &&
+          entry.name !== README_FILENAME
+        ) {
+          files.push(filename);
+        }
       }
-    });
-
-    if (!metadata.title || !metadata.topic || !metadata.created) {
-      throw new Error(
-        "Invalid learning: missing required metadata (title, topic, created)",
-      );
-    }
-
-    return {
-      metadata: {
-        title: metadata.title,
-        topic: metadata.topic,
-        tags: metadata.tags || [],
-        created: metadata.created,
-        related: metadata.related || [],
-      },
-      content: (content ?? "").trim(),
     };
+    await walk("");
+    return files;
   }
 
   /**
-   * Serialize learning to markdown with front matter
+   * Absolute path of a learning file, refusing filenames the filename
+   * policy rejects (see `checkFilename`)
    */
-  private serializeLearning(
-    metadata: LearningMetadata,
-    content: string,
-  ): string {
-    const frontMatter = [
-      "---",
-      `title: ${metadata.title}`,
-      `topic: ${metadata.topic}`,
-      `tags: [${metadata.tags.join(", ")}]`,
-      `created: ${metadata.created}`,
-      `related: [${metadata.related.join(", ")}]`,
-      "---",
-    ].join("\n");
-
-    return `${frontMatter}\n\n${content}`;
+  protected path(filename: string): string {
+    return join(this.baseDir, checkFilename(filename));
   }
 
-  async listFiles(): Promise<string[]> {
-    if (!existsSync(this.baseDir)) {
-      return [];
+  /**
+   * Remove the folders of a deleted or renamed learning that are now empty
+   */
+  private async removeEmptyFolders(filename: string): Promise<void> {
+    // Compare absolute paths: baseDir may be relative
+    const root = resolve(this.baseDir);
+    let folder = dirname(resolve(this.path(filename)));
+    while (folder.startsWith(root + sep)) {
+      try {
+        await rmdir(folder);
+      } catch {
+        // Not empty
+        return;
+      }
+      folder = dirname(folder);
     }
-    const files = await readdir(this.baseDir);
-    return files.filter((f) => f.endsWith(".md") && f !== "README.md");
+  }
+
+  async listLearnings(): Promise<Learning[]> {
+    return this.index.refresh(await this.listFiles());
   }
 
   async read(filename: string): Promise<Learning> {
-    const filepath = join(this.baseDir, filename);
+    const filepath = this.path(filename);
     const markdown = await readFile(filepath, "utf-8");
-    const { metadata, content } = this.parseLearning(markdown);
+    const { metadata, content } = parseLearning(markdown);
 
     return { filename, metadata, content };
   }
@@ -120,57 +153,200 @@ export class FileSystemRepository implements Repository {
     metadata: LearningMetadata,
     content: string,
   ): Promise<void> {
-    // Ensure directory exists before writing
-    if (!existsSync(this.baseDir)) {
-      await mkdir(this.baseDir, { recursive: true });
+    this.assertWritable();
+    const filepath = this.path(filename);
+    const previous = existsSync(filepath)
+      ? await readFile(filepath, "utf-8")
+      : undefined;
+
+    let markdown: string;
+    try {
+      // Merge into the existing file to keep hand-edited formatting
+      markdown = serializeLearning(metadata, content, previous);
+    } catch {
+      // Existing file is malformed, overwrite it
+      markdown = serializeLearning(metadata, content);
     }
-    const filepath = join(this.baseDir, filename);
-    const markdown = this.serializeLearning(metadata, content);
+    await this.writeMarkdown(filename, markdown);
+    await this.afterWrite();
+  }
+
+  /**
+   * Write a learning file as-is, keeping the index and embeddings current
+   */
+  protected async writeMarkdown(
+    filename: string,
+    markdown: string,
+  ): Promise<void> {
+    this.assertWritable();
+    const filepath = this.path(filename);
+    // Ensure the directory (and any folder of the learning) exists
+    await mkdir(dirname(filepath), { recursive: true });
     await writeFile(filepath, markdown, "utf-8");
+    this.index.invalidate(filename);
+
+    try {
+      await this.embeddings.upsert({ filename, ...parseLearning(markdown) });
+    } catch {
+      // Stale vectors are refreshed on the next semantic search
+    }
   }
 
   async delete(filename: string): Promise<void> {
-    const filepath = join(this.baseDir, filename);
-    await unlink(filepath);
+    this.assertWritable();
+    await this.trash.put(this.path(filename), filename);
+    this.index.invalidate(filename);
+    await this.embeddings.remove(filename);
+    await this.removeEmptyFolders(filename);
+    await this.afterWrite();
   }
 
-  async search(options: SearchOptions): Promise<SearchResult[]> {
-    const files = await this.listFiles();
-    const results: SearchResult[] = [];
+  async rename(from: string, to: string): Promise<void> {
+    this.assertWritable();
+    if (existsSync(this.path(to))) {
+      throw new Error(`A learning named ${to} already exists`);
+    }
+    const markdown = await readFile(this.path(from), "utf-8");
+    await this.writeMarkdown(to, markdown);
+    await unlink(this.path(from));
+    this.index.invalidate(from);
+    await this.embeddings.remove(from);
+    await this.removeEmptyFolders(from);
+    await this.afterWrite();
+  }
+
+  async listTrash(): Promise<TrashedLearning[]> {
+    return this.trash.list();
+  }
+
+  async restoreFromTrash(id: string): Promise<string> {
+    this.assertWritable();
+    const { item, markdown } = await this.trash.get(id);
+    if (existsSync(this.path(item.filename))) {
+      throw new Error(
+        `Cannot restore ${id}: a learning named ${item.filename} already exists`,
+      );
+    }
+    await this.writeMarkdown(item.filename, markdown);
+    await this.trash.purge(id);
+    await this.afterWrite();
+    return item.filename;
+  }
 
-    for (const filename of files) {
-      const learning = await this.read(filename);
+  /**
+   * Keep the README index current after a change, when enabled
+   */
+  protected async afterWrite(): Promise<void> {
+    if (this.readmeIndex) {
+      await this.writeReadme();
+    }
+  }
 
+  async updateIndex(): Promise<boolean> {
+    this.assertWritable();
+    return this.writeReadme();
+  }
+
+  /**
+   * Write the README index unless it is already current
+   */
+  private async writeReadme(): Promise<boolean> {
+    const learnings = await this.listLearnings();
+    const readme = renderReadme(learnings);
+    const filepath = join(this.baseDir, README_FILENAME);
+    if (
+      existsSync(filepath) &&
+      (await readFile(filepath, "utf-8")) === readme
+    ) {
+      return false;
+    }
+    await mkdir(this.baseDir, { recursive: true });
+    await writeFile(filepath, readme, "utf-8");
+    return true;
+  }
+
+  async purgeTrash(id?: string): Promise<TrashedLearning[]> {
+    this.assertWritable();
+    return this.trash.purge(id);
+  }
+
+  async search(options: SearchOptions): Promise<SearchResult[]> {
+    const learnings = await this.listLearnings();
+
+    const filtered = learnings.filter((learning) => {
       // Filter by topic
       if (options.topic && learning.metadata.topic !== options.topic) {
-        continue;
+        return false;
       }
 
       // Filter by tags
       if (options.tags && options.tags.length > 0) {
-        const hasAllTags = options.tags.every((tag) =>
+        return options.tags.every((tag) =>
           learning.metadata.tags.includes(tag),
         );
-        if (!hasAllTags) continue;
       }
 
-      // Filter by text search
-      if (options.search) {
-        const searchLower = options.search.toLowerCase();
-        const fullText =
-          `${learning.metadata.title} ${learning.content}`.toLowerCase();
-        if (!fullText.includes(searchLower)) {
-          continue;
-        }
-      }
+      return true;
+    });
 
-      results.push({
-        filename: learning.filename,
-        title: learning.metadata.title,
-        topic: learning.metadata.topic,
-      });
+    const toResult = (learning: Learning): SearchResult => ({
+      filename: learning.filename,
+      title: learning.metadata.title,
+      topic: learning.metadata.topic,
+      tags: learning.metadata.tags,
+    });
+
+    if (!options.search) {
+      return filtered.map(toResult);
     }
 
-    return results;
+    if (options.mode === "semantic") {
+      return this.semanticSearch(learnings, filtered, options.search, toResult);
+    }
+
+    // Rank by text search
+    return rank(filtered, options.search).map(
+      ({ learning, score, snippet }) => ({
+        ...toResult(learning),
+        score,
+        snippet,
+      }),
+    );
+  }
+
+  async parseErrors(): Promise<ParseError[]> {
+    await this.listLearnings();
+    return this.index.parseErrors();
+  }
+
+  /**
+   * Rank learnings by embedding similarity to the query. Vectors are kept
+   * for `all` learnings, which providers fitted over the corpus learn from.
+   */
+  private async semanticSearch(
+    all: Learning[],
+    learnings: Learning[],
+    query: string,
+    toResult: (learning: Learning) => SearchResult,
+  ): Promise<SearchResult[]> {
+    const vectors = await this.embeddings.vectors(all);
+    const queryVector = await this.embeddings.embedQuery(query);
+    const terms = new Set(tokenize(query));
+
+    return learnings
+      .map((learning) => ({
+        learning,
+        score: cosineSimilarity(
+          queryVector,
+          vectors.get(learning.filename) ?? [],
+        ),
+      }))
+      .filter(({ score }) => score >= MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .map(({ learning, score }) => ({
+        ...toResult(learning),
+        score,
+        snippet: snippet(learning.content, terms),
+      }));
   }
 }
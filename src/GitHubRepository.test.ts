@@ -0,0 +1,396 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { execSync } from "node:child_process";
+import { existsSync, mkdirSync } from "node:fs";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { GitHubRepository } from "./GitHubRepository.js";
+import { LearningsModule } from "./learnings.js";
+import type { LearningMetadata } from "./repository.js";
+
+let tempDir: string;
+let remote: string;
+
+const git = (cwd: string, command: string) =>
+  execSync(`git ${command}`, { cwd, encoding: "utf-8", stdio: "pipe" });
+
+/**
+ * Clone the bare remote and return a repository on its learnings folder
+ */
+function clone(name: string): { dir: string; repository: GitHubRepository } {
+  const dir = join(tempDir, name);
+  git(tempDir, `clone -q "${remote}" ${name}`);
+  git(dir, `config user.name ${name}`);
+  git(dir, `config user.email ${name}@example.com`);
+  git(dir, "config pull.rebase true");
+  // loadConfig creates the learnings folder before the repository is used
+  mkdirSync(join(dir, "learnings"), { recursive: true });
+  return { dir, repository: new GitHubRepository(join(dir, "learnings")) };
+}
+
+const metadata: LearningMetadata = {
+  title: "Git Rebase",
+  topic: "git",
+  tags: ["git"],
+  created: "2025-10-03",
+  related: [],
+};
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "learnings-git-test-"));
+  remote = join(tempDir, "remote.git");
+  git(tempDir, "init -q --bare -b main remote.git");
+
+  // Seed the remote with one learning
+  const { dir, repository } = clone("seed");
+  git(dir, "checkout -q -b main");
+  git(dir, "commit -q --allow-empty -m init");
+  git(dir, "push -q -u origin main");
+  await repository.write("git-rebase.md", metadata, "# Git Rebase\n\nBody");
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+test("push rebases onto changes pushed by someone else", async () => {
+  const alice = clone("alice");
+  const bob = clone("bob");
+
+  await alice.repository.write("alice.md", metadata, "# Alice");
+  await bob.repository.write("bob.md", metadata, "# Bob");
+
+  git(bob.dir, "fetch -q");
+  expect(git(bob.dir, "status -sb")).not.toContain("ahead");
+  const files = git(bob.dir, "ls-tree --name-only -r origin/main");
+  expect(files).toContain("learnings/alice.md");
+  expect(files).toContain("learnings/bob.md");
+});
+
+test("front matter conflicts in the same learning are merged", async () => {
+  const alice = clone("alice");
+  const bob = clone("bob");
+
+  await alice.repository.write(
+    "git-rebase.md",
+    { ...metadata, tags: ["git", "history"] },
+    "# Git Rebase\n\nBody",
+  );
+  await bob.repository.write(
+    "git-rebase.md",
+    { ...metadata, tags: ["git", "squash"], updated: "2025-11-01" },
+    "# Git Rebase\n\nBody",
+  );
+
+  const learning = await bob.repository.read("git-rebase.md");
+  expect(learning.metadata.tags).toEqual(["git", "history", "squash"]);
+  expect(learning.metadata.updated).toBe("2025-11-01");
+
+  git(bob.dir, "fetch -q");
+  const pushed = git(bob.dir, "show origin/main:learnings/git-rebase.md");
+  expect(pushed).toContain("squash");
+  expect(pushed).toContain("history");
+});
+
+test("unmergeable content conflicts fail with an actionable error", async () => {
+  const alice = clone("alice");
+  const bob = clone("bob");
+
+  await alice.repository.write("git-rebase.md", metadata, "# Alice's body");
+
+  await expect(
+    bob.repository.write("git-rebase.md", metadata, "# Bob's body"),
+  ).rejects.toThrow(/Conflict: learnings\/git-rebase\.md.*update_learning/);
+
+  // Bob's clone is back in sync with the remote, his change kept on a branch
+  const content = await readFile(
+    join(bob.dir, "learnings", "git-rebase.md"),
+    "utf-8",
+  );
+  expect(content).toContain("# Alice's body");
+  expect(git(bob.dir, "branch")).toContain("learnings-conflict-");
+
+  // Later writes are not blocked
+  await bob.repository.write("bob.md", metadata, "# Bob");
+});
+
+test("concurrent writes are serialized", async () => {
+  const alice = clone("alice");
+
+  await Promise.all(
+    ["one", "two", "three"].map((name) =>
+      alice.repository.write(`${name}.md`, metadata, `# ${name}`),
+    ),
+  );
+
+  const log = git(alice.dir, "log --format=%s origin/main");
+  expect(log).toContain("Add learning: one.md");
+  expect(log).toContain("Add learning: two.md");
+  expect(log).toContain("Add learning: three.md");
+});
+
+test("sync reports learnings pushed by someone else", async () => {
+  const alice = clone("alice");
+  const bob = clone("bob");
+
+  await alice.repository.write("alice.md", metadata, "# Alice");
+  await alice.repository.write(
+    "git-rebase.md",
+    { ...metadata, title: "Interactive Rebase" },
+    "# Interactive Rebase",
+  );
+  await alice.repository.delete("alice.md");
+  await alice.repository.write("alice-2.md", metadata, "# Alice 2");
+
+  const result = await bob.repository.sync();
+  expect(result).toEqual({
+    added: ["alice-2.md"],
+    changed: ["git-rebase.md"],
+    removed: [],
+  });
+  expect((await bob.repository.read("alice-2.md")).content).toBe("# Alice 2");
+
+  expect(await bob.repository.sync()).toEqual({
+    added: [],
+    changed: [],
+    removed: [],
+  });
+});
+
+test("sync keeps and merges pending changes", async () => {
+  const alice = clone("alice");
+  const { dir } = clone("bob");
+  const bob = new GitHubRepository(join(dir, "learnings"), {
+    commitStrategy: "manual",
+  });
+
+  await bob.write("git-rebase.md", metadata, "# Git Rebase\n\nBob's body");
+  await alice.repository.write("alice.md", metadata, "# Alice");
+  await alice.repository.write(
+    "git-rebase.md",
+    { ...metadata, tags: ["git", "history"] },
+    "# Git Rebase\n\nBody",
+  );
+
+  expect(await bob.sync()).toEqual({
+    added: ["alice.md"],
+    changed: ["git-rebase.md"],
+    removed: [],
+  });
+  const learning = await bob.read("git-rebase.md");
+  expect(learning.metadata.tags).toEqual(["git", "history"]);
+  expect(learning.content).toContain("Bob's body");
+
+  // The edit is still pending, and the stash is empty again
+  expect(git(dir, "status --porcelain")).toContain("learnings/git-rebase.md");
+  expect(git(dir, "stash list")).toBe("");
+  expect(await bob.commit()).toEqual(["git-rebase.md"]);
+});
+
+test("sync merges a pending new learning with one of the same name from the remote", async () => {
+  const alice = clone("alice");
+  const { dir } = clone("bob");
+  const bob = new GitHubRepository(join(dir, "learnings"), {
+    commitStrategy: "manual",
+  });
+
+  await bob.write(
+    "shared.md",
+    { ...metadata, tags: ["git", "squash"] },
+    "# Shared\n\nBody",
+  );
+  await alice.repository.write(
+    "shared.md",
+    { ...metadata, tags: ["git", "history"] },
+    "# Shared\n\nBody",
+  );
+
+  expect((await bob.sync()).added).toEqual(["shared.md"]);
+  const learning = await bob.read("shared.md");
+  expect(learning.metadata.tags).toEqual(["git", "history", "squash"]);
+  expect(git(dir, "stash list")).toBe("");
+  expect(await bob.commit()).toEqual(["shared.md"]);
+});
+
+test("sync keeps a learnings folder that only holds pending learnings", async () => {
+  const { dir } = clone("bob");
+  git(dir, "rm -q learnings/git-rebase.md");
+  git(dir, "commit -q -m empty");
+  git(dir, "push -q");
+  mkdirSync(join(dir, "learnings"), { recursive: true });
+  const bob = new GitHubRepository(join(dir, "learnings"), {
+    commitStrategy: "manual",
+  });
+
+  await bob.write("new.md", metadata, "# New");
+  // As on a fresh start, before anything was cached
+  await rm(join(dir, "learnings", ".cache"), { recursive: true });
+  await bob.sync();
+
+  expect(await bob.listFiles()).toEqual(["new.md"]);
+  expect(git(dir, "stash list")).toBe("");
+});
+
+test("without an upstream branch, changes are committed but not pushed", async () => {
+  const dir = join(tempDir, "standalone");
+  mkdirSync(join(dir, "learnings"), { recursive: true });
+  git(dir, "init -q");
+  git(dir, "config user.name alice");
+  git(dir, "config user.email alice@example.com");
+  const repository = new GitHubRepository(join(dir, "learnings"));
+
+  await repository.write("one.md", metadata, "# One");
+  expect(git(dir, "log -1 --format=%s")).toBe("Add learning: one.md\n");
+  expect(await repository.sync()).toEqual({
+    added: [],
+    changed: [],
+    removed: [],
+  });
+});
+
+test("batched strategy commits once with a summarized message", async () => {
+  const { dir } = clone("alice");
+  const repository = new GitHubRepository(join(dir, "learnings"), {
+    commitStrategy: "batched",
+    batchDelayMs: 50,
+  });
+
+  await repository.write("one.md", { ...metadata, title: "One" }, "# One");
+  await repository.write("two.md", { ...metadata, title: "Two" }, "# Two");
+  await repository.delete("git-rebase.md");
+  expect(git(dir, "status --porcelain")).not.toBe("");
+
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  git(dir, "fetch -q");
+  const message = git(dir, "log -1 --format=%B origin/main");
+  expect(message).toStartWith("Update 3 learnings\n\n");
+  expect(message).toContain("- Add learning: one.md (One)");
+  expect(message).toContain("- Add learning: two.md (Two)");
+  expect(message).toContain("- Remove learning: git-rebase.md");
+});
+
+test("flush commits batched changes without waiting for the delay", async () => {
+  const { dir } = clone("alice");
+  const repository = new GitHubRepository(join(dir, "learnings"), {
+    commitStrategy: "batched",
+    batchDelayMs: 60_000,
+  });
+
+  // Nothing waiting, nothing committed
+  const head = git(dir, "rev-parse HEAD");
+  await repository.flush();
+  expect(git(dir, "rev-parse HEAD")).toBe(head);
+
+  await repository.write("one.md", metadata, "# One");
+  await repository.flush();
+
+  git(dir, "fetch -q");
+  expect(git(dir, "log -1 --format=%s origin/main")).toContain("one.md");
+  expect(git(dir, "status --porcelain")).toBe("");
+});
+
+test("manual strategy commits only on demand", async () => {
+  const { dir } = clone("alice");
+  const repository = new GitHubRepository(join(dir, "learnings"), {
+    commitStrategy: "manual",
+  });
+
+  await repository.write("one.md", metadata, "# One");
+  expect(git(dir, "log -1 --format=%s")).not.toContain("one.md");
+
+  expect(await repository.commit()).toEqual(["one.md"]);
+  expect(git(dir, "log -1 --format=%s")).toBe("Add learning: one.md\n");
+  expect(await repository.commit()).toEqual([]);
+});
+
+test("commit message and identity are configurable", async () => {
+  const { dir } = clone("alice");
+  const repository = new GitHubRepository(join(dir, "learnings"), {
+    commitTemplate: "learnings({topic}): {action} {title}",
+    commitFooter: "",
+    author: "Docs Bot <docs@example.com>",
+    committer: "CI <ci@example.com>",
+  });
+
+  await repository.write("one.md", { ...metadata, title: "One" }, "# One");
+  expect(git(dir, "log -1 --format=%B")).toBe("learnings(git): Add One\n\n");
+  expect(git(dir, "log -1 --format=%an/%ae/%cn/%ce")).toBe(
+    "Docs Bot/docs@example.com/CI/ci@example.com\n",
+  );
+
+  await repository.delete("one.md");
+  expect(git(dir, "log -1 --format=%s")).toBe("learnings(git): Remove One\n");
+});
+
+test("filenames are never interpreted by a shell", async () => {
+  const { dir, repository } = clone("alice");
+  const filename = "$(touch pwned)-`touch pwned`.md";
+
+  await repository.write(filename, metadata, "# Body");
+
+  expect(git(dir, "log -1 --format=%s")).toBe(`Add learning: ${filename}\n`);
+  expect(existsSync(join(dir, "learnings", "pwned"))).toBe(false);
+});
+
+test("history lists, diffs and restores revisions", async () => {
+  const { dir, repository } = clone("alice");
+  await repository.write(
+    "git-rebase.md",
+    { ...metadata, title: "Interactive Rebase" },
+    "# Interactive Rebase",
+  );
+
+  const revisions = await repository.history("git-rebase.md");
+  expect(revisions.map((r) => r.message)).toEqual([
+    "Update learning: git-rebase.md",
+    "Add learning: git-rebase.md",
+  ]);
+  const [latest, first] = revisions.map((r) => r.hash);
+
+  const diff = await repository.diff(
+    "git-rebase.md",
+    first ?? "",
+    latest ?? "",
+  );
+  expect(diff).toContain("-title: Git Rebase");
+  expect(diff).toContain("+title: Interactive Rebase");
+
+  await repository.restore("git-rebase.md", first ?? "");
+  expect((await repository.read("git-rebase.md")).content).toBe(
+    "# Git Rebase\n\nBody",
+  );
+  expect(git(dir, "log -1 --format=%s origin/main")).toBe(
+    "Restore learning: git-rebase.md\n",
+  );
+
+  await expect(
+    repository.restore("git-rebase.md", first ?? ""),
+  ).rejects.toThrow("already matches");
+  await expect(repository.diff("git-rebase.md", "--output=x")).rejects.toThrow(
+    "Invalid revision",
+  );
+});
+
+test("renaming with reference rewrites is a single commit", async () => {
+  const { dir, repository } = clone("alice");
+  const learnings = new LearningsModule(repository);
+  await repository.write(
+    "git-squash.md",
+    { ...metadata, title: "Git Squash", related: ["git-rebase.md"] },
+    "# Git Squash\n\n## See Also\n\n- [git-rebase.md](./git-rebase.md)",
+  );
+  const before = git(dir, "rev-parse HEAD");
+
+  await learnings.rename("git-rebase.md", "git-rebase-onto.md");
+
+  expect(git(dir, `rev-list --count ${before.trim()}..origin/main`)).toBe(
+    "1\n",
+  );
+  const message = git(dir, "log -1 --format=%B");
+  expect(message).toStartWith(
+    "Rename learning: git-rebase.md → git-rebase-onto.md\n\n",
+  );
+  expect(message).toContain("- Update learning: git-squash.md (Git Squash)");
+  expect(git(dir, "status --porcelain")).toBe("");
+});
@@ -1,19 +1,127 @@
-import { execSync } from "node:child_process";
-import { FileSystemRepository } from "./FileSystemRepository.js";
-import type { LearningMetadata } from "./repository.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { execFile, execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { promisify } from "node:util";
+import {
+  FileSystemRepository,
+  type FileSystemRepositoryOptions,
+} from "./FileSystemRepository.js";
+import { parseLearning } from "./front-matter.js";
+import { Mutex, withFileLock } from "./lock.js";
+import { mergeLearning } from "./merge.js";
+import { README_FILENAME } from "./readme.js";
+import type { LearningMetadata, Revision, SyncResult } from "./repository.js";
+
+/** Push attempts before giving up, rebasing onto the remote in between */
+const MAX_PUSH_ATTEMPTS = 3;
+
+/** How long a pull or push may take before it is stopped */
+const NETWORK_TIMEOUT_MS = 60_000;
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_COMMIT_TEMPLATE = "{action} learning: {filename}";
+
+export const DEFAULT_COMMIT_FOOTER = `🤖 Generated with [Claude Code](https://claude.com/claude-code)
+
+Co-Authored-By: Claude <noreply@anthropic.com>`;
+
+/**
+ * When writes are committed and pushed:
+ * - immediate: one commit per write
+ * - batched: one commit once no write happened for `batchDelayMs`
+ * - manual: only when `commit()` is called
+ */
+export type CommitStrategy = "immediate" | "batched" | "manual";
+
+export interface GitHubRepositoryOptions extends FileSystemRepositoryOptions {
+  commitStrategy?: CommitStrategy;
+  /** Debounce window for batched commits (default: 30 seconds) */
+  batchDelayMs?: number;
+  /**
+   * Commit subject for a single change, with `{action}`, `{filename}`,
+   * `{title}` and `{topic}` placeholders (default: DEFAULT_COMMIT_TEMPLATE).
+   * Batched commits use it for each line of the summary.
+   */
+  commitTemplate?: string;
+  /** Appended to every commit message; empty for none (default: DEFAULT_COMMIT_FOOTER) */
+  commitFooter?: string;
+  /** Commit author as "Name <email>" instead of the configured git identity */
+  author?: string;
+  /**
+   * Committer as "Name <email>" instead of the configured git identity.
+   * Also used as the author unless `author` is set.
+   */
+  committer?: string;
+  /** Sign commits with a GPG or SSH key */
+  sign?: "gpg" | "ssh";
+  /** Key to sign with (default: git's user.signingkey) */
+  signingKey?: string;
+}
+
+interface Change {
+  action: "Add" | "Update" | "Remove" | "Restore";
+  filename: string;
+}
+
+/**
+ * Split a "Name <email>" identity
+ */
+function parseIdentity(identity: string): { name: string; email: string } {
+  const match = identity.match(/^\s*(.+?)\s*<([^<>]+)>\s*$/);
+  if (!match?.[1] || !match[2]) {
+    throw new Error(
+      `Invalid git identity "${identity}": expected "Name <email>"`,
+    );
+  }
+  return { name: match[1], email: match[2] };
+}
 
 /**
  * GitHub-backed repository that auto-commits and pushes on writes
  */
 export class GitHubRepository extends FileSystemRepository {
+  private readonly mutex = new Mutex();
+  /** Set while running the changes of a `batch` */
+  private readonly batchScope = new AsyncLocalStorage<boolean>();
+  private readonly commitStrategy: CommitStrategy;
+  private readonly batchDelayMs: number;
+  private readonly commitTemplate: string;
+  private readonly commitFooter: string;
+  private readonly author: string | undefined;
+  private readonly committer: { name: string; email: string } | undefined;
+  private readonly sign: "gpg" | "ssh" | undefined;
+  private readonly signingKey: string | undefined;
+  private batchTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(baseDir: string, options: GitHubRepositoryOptions = {}) {
+    super(baseDir, options);
+    this.commitStrategy = options.commitStrategy ?? "immediate";
+    this.batchDelayMs = options.batchDelayMs ?? 30_000;
+    this.commitTemplate = options.commitTemplate ?? DEFAULT_COMMIT_TEMPLATE;
+    this.commitFooter = options.commitFooter ?? DEFAULT_COMMIT_FOOTER;
+    if (options.author) {
+      const { name, email } = parseIdentity(options.author);
+      this.author = `${name} <${email}>`;
+    }
+    this.committer = options.committer
+      ? parseIdentity(options.committer)
+      : undefined;
+    this.sign = options.sign;
+    this.signingKey = options.signingKey;
+  }
+
   /**
-   * Execute git command in the base directory
+   * Execute git in the base directory. Arguments are passed without a shell,
+   * so filenames and messages need no quoting
    */
-  private git(command: string): string {
+  private git(...args: string[]): string {
     try {
-      return execSync(`git ${command}`, {
+      return execFileSync("git", args, {
         cwd: this.baseDir,
         encoding: "utf-8",
+        stdio: "pipe",
       });
     } catch (error) {
       throw new Error(
@@ -23,30 +131,576 @@ export class GitHubRepository extends FileSystemRepository {
   }
 
   /**
-   * Auto-commit and push changes
+   * Execute a git command that reaches the remote. It runs without blocking
+   * the process, never prompts for credentials and is stopped after
+   * NETWORK_TIMEOUT_MS, so a stalled network can't hang the server.
+   */
+  private async gitRemote(...args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync("git", args, {
+        cwd: this.baseDir,
+        encoding: "utf-8",
+        timeout: NETWORK_TIMEOUT_MS,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+      });
+      return stdout;
+    } catch (error) {
+      if (
+        error &&
+        typeof error === "object" &&
+        "killed" in error &&
+        error.killed
+      ) {
+        throw new Error(
+          `Git command timed out after ${NETWORK_TIMEOUT_MS / 1000} seconds: git ${args.join(" ")}`,
+        );
+      }
+      throw new Error(
+        `Git command failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Absolute path of the .git directory
+   */
+  private gitDir(): string {
+    return this.git("rev-parse", "--absolute-git-dir").trim();
+  }
+
+  /**
+   * Run a change while holding the write lock, shared by every writer in
+   * this process and by other processes using the same clone
+   */
+  private locked<T>(fn: () => Promise<T>): Promise<T> {
+    return this.mutex.run(() =>
+      withFileLock(join(this.gitDir(), "learnings.lock"), fn),
+    );
+  }
+
+  /**
+   * Commit and push all uncommitted learning changes, returning the
+   * filenames that were committed. `subject` replaces the generated subject
+   * line; the changed learnings are listed below it.
    */
-  private async commitAndPush(message: string): Promise<void> {
+  private async commitChanges(subject?: string): Promise<string[]> {
     // Add all changes in learnings directory
-    this.git("add .");
+    this.git("add", ".");
+
+    const changes = this.git(
+      "diff",
+      "--cached",
+      "--name-status",
+      "--no-renames",
+      "--relative",
+      "--",
+      ".",
+    )
+      .split("\n")
+      .filter(Boolean)
+      .map((line): Change => {
+        const [status = "", filename = ""] = line.split("\t");
+        const action =
+          status === "A" ? "Add" : status === "D" ? "Remove" : "Update";
+        return { action, filename };
+      })
+      // The README index is committed with the learnings it lists
+      .filter(({ filename }) => filename !== README_FILENAME);
+
+    if (changes.length === 0) {
+      if (!this.git("diff", "--cached", "--name-only", "--", ".").trim()) {
+        // No changes to commit
+        return [];
+      }
+      this.git(
+        ...this.commitArgs(
+          this.withFooter(subject ?? "Update the learnings index"),
+        ),
+      );
+      await this.push();
+      return [];
+    }
+
+    let message: string;
+    const [single] = changes;
+    if (single && changes.length === 1 && !subject) {
+      message = await this.commitSubject(single);
+    } else {
+      const lines = await Promise.all(
+        changes.map(async (change) => {
+          let line = await this.commitSubject(change);
+          // Name the learning unless the template already does
+          if (!this.commitTemplate.includes("{title}")) {
+            const { title } = await this.metadataOf(change);
+            if (title) line += ` (${title})`;
+          }
+          return `- ${line}`;
+        }),
+      );
+      message = `${subject ?? `Update ${changes.length} learnings`}\n\n${lines.join("\n")}`;
+    }
+
+    this.git(...this.commitArgs(this.withFooter(message)));
+
+    await this.push();
+
+    return changes.map((c) => c.filename);
+  }
+
+  /**
+   * Fill in the commit template for one change
+   */
+  private async commitSubject(change: Change): Promise<string> {
+    const { title = "", topic = "" } = this.commitTemplate.match(
+      /\{(title|topic)\}/,
+    )
+      ? await this.metadataOf(change)
+      : {};
+    const values: Record<string, string> = {
+      action: change.action,
+      filename: change.filename,
+      title,
+      topic,
+    };
+    return this.commitTemplate.replace(
+      /\{(\w+)\}/g,
+      (placeholder, name: string) => values[name] ?? placeholder,
+    );
+  }
+
+  /**
+   * Title and topic of a changed learning, read from the last commit for
+   * removed ones. Empty if the file cannot be parsed.
+   */
+  private async metadataOf({
+    action,
+    filename,
+  }: Change): Promise<Partial<LearningMetadata>> {
+    try {
+      if (action === "Remove") {
+        return parseLearning(this.git("show", `HEAD:./${filename}`)).metadata;
+      }
+      return (await this.read(filename)).metadata;
+    } catch {
+      return {};
+    }
+  }
+
+  private withFooter(message: string): string {
+    return this.commitFooter ? `${message}\n\n${this.commitFooter}` : message;
+  }
+
+  /**
+   * `git commit` arguments applying the identity and signing options
+   */
+  private commitArgs(message: string): string[] {
+    const config: string[] = [];
+    const flags: string[] = [];
+
+    if (this.committer) {
+      config.push(
+        "-c",
+        `user.name=${this.committer.name}`,
+        "-c",
+        `user.email=${this.committer.email}`,
+      );
+    }
+    if (this.author) {
+      flags.push(`--author=${this.author}`);
+    }
+    if (this.sign) {
+      config.push(
+        "-c",
+        `gpg.format=${this.sign === "ssh" ? "ssh" : "openpgp"}`,
+      );
+      flags.push(
+        this.signingKey ? `--gpg-sign=${this.signingKey}` : "--gpg-sign",
+      );
+    }
+
+    return [...config, "commit", ...flags, "-m", message];
+  }
+
+  /**
+   * Commit according to the commit strategy after a write or delete
+   */
+  private async afterChange(subject?: string): Promise<void> {
+    if (this.commitStrategy === "immediate") {
+      await this.commitChanges(subject);
+    } else if (this.commitStrategy === "batched") {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = setTimeout(() => {
+        this.commit().catch((error) =>
+          console.error(
+            `Batched commit failed: ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        );
+      }, this.batchDelayMs);
+      // Exiting must not wait for the delay; see `flush`
+      this.batchTimer.unref();
+    }
+  }
+
+  /**
+   * Commit and push pending changes now, whatever the commit strategy
+   */
+  async commit(): Promise<string[]> {
+    clearTimeout(this.batchTimer);
+    this.batchTimer = undefined;
+    return this.locked(() => this.commitChanges());
+  }
 
-    // Check if there are changes to commit
-    const status = this.git("status --porcelain");
-    if (!status.trim()) {
-      // No changes to commit
+  async flush(): Promise<void> {
+    if (this.batchTimer !== undefined) {
+      await this.commit();
+    }
+  }
+
+  /**
+   * Whether the current branch tracks a remote branch. Without one, as in a
+   * repository made by `learnings init` without a remote, changes are only
+   * committed.
+   */
+  private hasUpstream(): boolean {
+    try {
+      this.git("rev-parse", "--verify", "--quiet", "@{upstream}");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Push to remote, rebasing onto it and retrying when it moved ahead
+   */
+  private async push(): Promise<void> {
+    if (!this.hasUpstream()) return;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.gitRemote("push");
+        return;
+      } catch (error) {
+        if (attempt >= MAX_PUSH_ATTEMPTS) {
+          throw new Error(
+            `Failed to push after ${attempt} attempts. The change is committed locally and will be pushed with the next write. ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+      await this.pullRebase();
+    }
+  }
+
+  /**
+   * Replay local commits on top of the remote, merging learning conflicts.
+   * Uncommitted changes (pending with the batched and manual strategies)
+   * would stop the rebase, so they are stashed meanwhile. They are staged
+   * first, so a new learning is stashed too and merged with one of the same
+   * name that arrives from the remote.
+   */
+  private async pullRebase(): Promise<void> {
+    this.git("add", ".");
+    const stashed =
+      this.git("status", "--porcelain", "--untracked-files=no").trim() !== "";
+    if (stashed) {
+      this.git("stash", "push", "--quiet", "-m", "learnings: pending changes");
+      // Git removes the learnings folder if it only held new learnings, but
+      // git runs in it
+      mkdirSync(this.baseDir, { recursive: true });
+    }
+    try {
+      await this.gitRemote("pull", "--rebase");
+    } catch (error) {
+      // Only conflicts leave a rebase in progress; anything else is fatal
+      if (!this.rebaseInProgress()) {
+        throw error;
+      }
+      this.resolveRebaseConflicts();
+    } finally {
+      if (stashed) this.unstash();
+    }
+  }
+
+  /**
+   * Re-apply the pending changes stashed by `pullRebase`, merging them into
+   * learnings the pull changed. If that fails they stay in the stash.
+   */
+  private unstash(): void {
+    try {
+      this.git("stash", "pop", "--quiet");
       return;
+    } catch {
+      // Conflicts with what was pulled
+    }
+    const unresolved = this.mergeConflicts();
+    if (unresolved.length > 0) {
+      this.git("reset", "--quiet", "--hard");
+      throw new Error(
+        `Conflict: pending changes to ${unresolved.join(", ")} cannot be merged with the remote version. They were kept in the git stash; run \`git stash pop\` in ${this.baseDir} to resolve them by hand.`,
+      );
     }
+    // Merged changes stay pending, as they were before the pull
+    this.git("reset", "--quiet");
+    this.git("stash", "drop", "--quiet");
+  }
 
-    // Commit with message
-    const fullMessage = `${message}
+  /**
+   * Merge the conflicted learnings of a stopped rebase or stash pop with
+   * `mergeLearning` and stage them, returning the paths that could not be
+   * merged
+   */
+  private mergeConflicts(): string[] {
+    const topLevel = this.git("rev-parse", "--show-toplevel").trim();
+    const conflicted = this.git("diff", "--name-only", "--diff-filter=U")
+      .split("\n")
+      .filter(Boolean);
+    const unresolved: string[] = [];
 
-🤖 Generated with [Claude Code](https://claude.com/claude-code)
+    for (const path of conflicted) {
+      const merged = path.endsWith(".md")
+        ? mergeLearning(
+            this.show(`:1:${path}`),
+            this.show(`:2:${path}`) ?? "",
+            this.show(`:3:${path}`) ?? "",
+          )
+        : null;
 
-Co-Authored-By: Claude <noreply@anthropic.com>`;
+      if (merged === null) {
+        unresolved.push(path);
+        continue;
+      }
+      writeFileSync(join(topLevel, path), merged, "utf-8");
+      this.git("add", "--", join(topLevel, path));
+    }
+    return unresolved;
+  }
 
-    this.git(`commit -m "${fullMessage.replace(/"/g, '\\"')}"`);
+  private rebaseInProgress(): boolean {
+    const gitDir = this.gitDir();
+    return (
+      existsSync(join(gitDir, "rebase-merge")) ||
+      existsSync(join(gitDir, "rebase-apply"))
+    );
+  }
 
-    // Push to remote
-    this.git("push");
+  /**
+   * Resolve conflicts of a stopped rebase, one replayed commit at a time.
+   *
+   * Learnings changed on both sides are merged with `mergeLearning`. If any
+   * file cannot be merged, the rebase is aborted, local commits are saved on
+   * a branch and the clone is reset to the remote, so later writes are not
+   * blocked by the same conflict.
+   */
+  private resolveRebaseConflicts(): void {
+    while (this.rebaseInProgress()) {
+      const unresolved = this.mergeConflicts();
+      if (unresolved.length > 0) {
+        this.git("rebase", "--abort");
+        const branch = `learnings-conflict-${Date.now()}`;
+        this.git("branch", branch);
+        this.git("reset", "--hard", "@{upstream}");
+        throw new Error(
+          `Conflict: ${unresolved.join(", ")} changed both locally and on the remote in ways that cannot be merged automatically. The remote version was kept and your unpushed changes were saved on branch '${branch}'. Use get_learning to read the current version, then update_learning to re-apply your change.`,
+        );
+      }
+
+      try {
+        this.git("-c", "core.editor=true", "rebase", "--continue");
+      } catch (error) {
+        // The next replayed commit may stop with conflicts of its own
+        if (!this.rebaseInProgress()) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Content of a file at a revision (`<hash>:./path`) or conflict stage
+   * (`:1:path` base, `:2:` upstream, `:3:` local), or undefined if the file
+   * is missing there
+   */
+  private show(object: string): string | undefined {
+    try {
+      return this.git("show", object);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Pull from the remote (pushing any commits left unpushed) and report
+   * which learnings the pull added, changed or removed. Nothing arrives
+   * without an upstream branch.
+   */
+  async sync(): Promise<SyncResult> {
+    return this.locked(async () => {
+      if (!this.hasUpstream()) {
+        return { added: [], changed: [], removed: [] };
+      }
+      const before = this.git("rev-parse", "HEAD").trim();
+      await this.pullRebase();
+      const after = this.git("rev-parse", "HEAD").trim();
+
+      const ahead = Number(
+        this.git("rev-list", "--count", "@{upstream}..HEAD"),
+      );
+      if (ahead > 0) {
+        await this.push();
+      }
+
+      const result: SyncResult = { added: [], changed: [], removed: [] };
+      if (before === after) {
+        return result;
+      }
+
+      // Diffing the old and new HEAD leaves out local commits, which are
+      // replayed on top of the remote by the rebase
+      const diff = this.git(
+        "diff",
+        "--name-status",
+        "--no-renames",
+        "--relative",
+        before,
+        after,
+        "--",
+        ".",
+      );
+      for (const line of diff.split("\n")) {
+        const [status, filename] = line.split("\t");
+        if (
+          !filename?.endsWith(".md") ||
+          basename(filename) === "README.md" ||
+          filename.split("/").some((segment) => segment.startsWith("."))
+        ) {
+          continue;
+        }
+        if (status === "A") result.added.push(filename);
+        else if (status === "D") result.removed.push(filename);
+        else result.changed.push(filename);
+      }
+      return result;
+    });
+  }
+
+  async history(filename: string): Promise<Revision[]> {
+    this.path(filename);
+    const log = this.git(
+      "log",
+      "--follow",
+      "--format=%H%x1f%aI%x1f%an%x1f%s",
+      "--",
+      filename,
+    );
+    const revisions = log
+      .split("\n")
+      .filter(Boolean)
+      .map((line): Revision => {
+        const [hash = "", date = "", author = "", message = ""] =
+          line.split("\x1f");
+        return { hash, date, author, message };
+      });
+
+    if (revisions.length === 0) {
+      throw new Error(`No history for ${filename}`);
+    }
+    return revisions;
+  }
+
+  async diff(filename: string, from: string, to?: string): Promise<string> {
+    this.path(filename);
+    const revisions = [from, ...(to ? [to] : [])].map((revision) =>
+      this.resolveRevision(revision),
+    );
+    return this.git("diff", "--relative", ...revisions, "--", filename);
+  }
+
+  /**
+   * Restore a learning to a previous revision and commit it right away,
+   * whatever the commit strategy. Other pending changes stay uncommitted.
+   */
+  async restore(filename: string, revision: string): Promise<void> {
+    this.path(filename);
+    await this.locked(async () => {
+      const hash = this.resolveRevision(revision);
+      const markdown = this.show(`${hash}:./${filename}`);
+      if (markdown === undefined) {
+        throw new Error(`${filename} does not exist in revision ${revision}`);
+      }
+
+      await this.writeMarkdown(filename, markdown);
+      this.git("add", "--", filename);
+      if (!this.git("diff", "--cached", "--name-only", "--", filename)) {
+        throw new Error(`${filename} already matches revision ${revision}`);
+      }
+      await this.afterWrite();
+      const paths = [filename];
+      if (this.git("status", "--porcelain", "--", README_FILENAME).trim()) {
+        this.git("add", "--", README_FILENAME);
+        paths.push(README_FILENAME);
+      }
+
+      const subject = await this.commitSubject({ action: "Restore", filename });
+      this.git(
+        ...this.commitArgs(
+          this.withFooter(`${subject}\n\nRestored from ${hash}`),
+        ),
+        "--",
+        ...paths,
+      );
+      await this.push();
+    });
+  }
+
+  /**
+   * Full hash of a commit, rejecting anything git could take for an option
+   */
+  private resolveRevision(revision: string): string {
+    if (revision.startsWith("-")) {
+      throw new Error(`Invalid revision: ${revision}`);
+    }
+    try {
+      return this.git(
+        "rev-parse",
+        "--verify",
+        "--quiet",
+        `${revision}^{commit}`,
+      ).trim();
+    } catch {
+      throw new Error(`Unknown revision: ${revision}`);
+    }
+  }
+
+  /**
+   * Run a change under the lock and commit it, or just run it when inside
+   * `batch`, which commits once at the end
+   */
+  private async change<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.batchScope.getStore()) {
+      return fn();
+    }
+    return this.locked(async () => {
+      const result = await fn();
+      await this.afterChange();
+      return result;
+    });
+  }
+
+  /**
+   * Run several changes under one lock and commit them together (with the
+   * immediate strategy; otherwise they join the pending changes). A batch
+   * inside a batch joins the outer one.
+   */
+  async batch<T>(message: string, fn: () => Promise<T>): Promise<T> {
+    if (this.batchScope.getStore()) {
+      return fn();
+    }
+    return this.locked(() =>
+      this.batchScope.run(true, async () => {
+        const result = await fn();
+        await this.afterChange(message);
+        return result;
+      }),
+    );
   }
 
   override async write(
@@ -54,12 +708,22 @@ Co-Authored-By: Claude <noreply@anthropic.com>`;
     metadata: LearningMetadata,
     content: string,
   ): Promise<void> {
-    await super.write(filename, metadata, content);
-    await this.commitAndPush(`Add learning: ${filename}`);
+    await this.change(() => super.write(filename, metadata, content));
   }
 
   override async delete(filename: string): Promise<void> {
-    await super.delete(filename);
-    await this.commitAndPush(`Remove learning: ${filename}`);
+    await this.change(() => super.delete(filename));
+  }
+
+  override async rename(from: string, to: string): Promise<void> {
+    await this.change(() => super.rename(from, to));
+  }
+
+  override async restoreFromTrash(id: string): Promise<string> {
+    return this.change(() => super.restoreFromTrash(id));
+  }
+
+  override async updateIndex(): Promise<boolean> {
+    return this.change(() => super.updateIndex());
   }
 }
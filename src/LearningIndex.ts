@@ -0,0 +1,152 @@
+import { readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { cacheDir, readCacheFile, writeCacheFile } from "./cache.js";
+import { parseLearning } from "./front-matter.js";
+import type { Learning, LearningMetadata, ParseError } from "./repository.js";
+
+/** Bump when the on-disk format changes to discard stale caches */
+const INDEX_VERSION = 1;
+
+interface IndexEntry {
+  mtimeMs: number;
+  size: number;
+  metadata: LearningMetadata;
+  content: string;
+}
+
+interface IndexFile {
+  version: number;
+  entries: Record<string, IndexEntry>;
+}
+
+/**
+ * Parsed learnings cached on disk, keyed by file mtime and size.
+ *
+ * Each refresh stats every file and only re-parses the ones that changed
+ * since the last refresh, so listing and searching stay cheap on large
+ * repositories. The cache lives in `.cache/` next to the learnings, which
+ * carries its own `.gitignore` so it is never committed.
+ */
+export class LearningIndex {
+  private entries: Map<string, IndexEntry> | null = null;
+  private errors: ParseError[] = [];
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly baseDir: string,
+    private readonly indexPath: string = join(cacheDir(baseDir), "index.json"),
+  ) {}
+
+  /**
+   * Bring the index up to date with the given files and return their
+   * learnings, leaving out files that cannot be parsed (see `parseErrors`)
+   */
+  refresh(filenames: string[]): Promise<Learning[]> {
+    // Serialize refreshes so concurrent callers don't parse or persist twice
+    const result = this.pending.then(() => this.doRefresh(filenames));
+    this.pending = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Files left out by the last refresh because they could not be read or
+   * parsed. They are never cached, so each refresh reads them again.
+   */
+  parseErrors(): ParseError[] {
+    return this.errors;
+  }
+
+  /**
+   * Drop a cached entry so it is re-parsed on the next refresh
+   */
+  invalidate(filename: string): void {
+    this.entries?.delete(filename);
+  }
+
+  private async doRefresh(filenames: string[]): Promise<Learning[]> {
+    const entries = await this.load();
+    const current = new Set(filenames);
+    let dirty = false;
+
+    for (const cached of entries.keys()) {
+      if (!current.has(cached)) {
+        entries.delete(cached);
+        dirty = true;
+      }
+    }
+
+    const learnings: Learning[] = [];
+    const errors: ParseError[] = [];
+    for (const filename of filenames) {
+      const filepath = join(this.baseDir, filename);
+      let entry = entries.get(filename);
+
+      try {
+        const stats = await stat(filepath);
+        if (
+          !entry ||
+          entry.mtimeMs !== stats.mtimeMs ||
+          entry.size !== stats.size
+        ) {
+          const { metadata, content } = parseLearning(
+            await readFile(filepath, "utf-8"),
+          );
+          entry = {
+            mtimeMs: stats.mtimeMs,
+            size: stats.size,
+            metadata,
+            content,
+          };
+          entries.set(filename, entry);
+          dirty = true;
+        }
+      } catch (error) {
+        if (entries.delete(filename)) {
+          dirty = true;
+        }
+        // Deleted or renamed since it was listed (by a sync or an editor)
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          continue;
+        }
+        // One malformed or unreadable file must not break listing
+        errors.push({
+          filename,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      learnings.push({
+        filename,
+        metadata: entry.metadata,
+        content: entry.content,
+      });
+    }
+
+    this.errors = errors;
+    if (dirty) {
+      await writeCacheFile(this.indexPath, {
+        version: INDEX_VERSION,
+        entries: Object.fromEntries(entries),
+      } satisfies IndexFile);
+    }
+
+    return learnings;
+  }
+
+  /**
+   * Load entries from memory, falling back to the on-disk cache
+   */
+  private async load(): Promise<Map<string, IndexEntry>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    const data = await readCacheFile<IndexFile>(this.indexPath);
+    this.entries =
+      data?.version === INDEX_VERSION
+        ? new Map(Object.entries(data.entries))
+        : new Map();
+    return this.entries;
+  }
+}
@@ -0,0 +1,84 @@
+import { expect, test } from "bun:test";
+import { LearningsSync } from "./LearningsSync.js";
+import type { SyncResult } from "./repository.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const none: SyncResult = { added: [], changed: [], removed: [] };
+
+/**
+ * A repository whose pulls bring the given results, then nothing
+ */
+function pulling(...results: Partial<SyncResult>[]) {
+  const repository = {
+    pulls: 0,
+    async sync(): Promise<SyncResult> {
+      const result = results[repository.pulls++];
+      return { ...none, ...result };
+    },
+  };
+  return repository;
+}
+
+test("start pulls in the background and then on the interval", async () => {
+  const repository = pulling();
+  const sync = new LearningsSync(repository);
+
+  // 60 ms
+  sync.start(0.001);
+  expect(repository.pulls).toBe(1);
+  await sleep(200);
+  sync.stop();
+  const pulls = repository.pulls;
+  expect(pulls).toBeGreaterThanOrEqual(3);
+
+  await sleep(150);
+  expect(repository.pulls).toBe(pulls);
+});
+
+test("an interval of 0 only pulls on start", async () => {
+  const repository = pulling();
+  new LearningsSync(repository).start(0);
+  await sleep(50);
+  expect(repository.pulls).toBe(1);
+});
+
+test("sync reports everything that arrived since the last sync", async () => {
+  const repository = pulling(
+    { added: ["new.md", "gone.md"], changed: ["edited.md"] },
+    { removed: ["gone.md", "old.md"], changed: ["new.md"] },
+  );
+  const sync = new LearningsSync(repository);
+
+  sync.start(0);
+  await sleep(10);
+  expect(await sync.sync()).toEqual({
+    added: ["new.md"],
+    changed: ["edited.md"],
+    removed: ["old.md"],
+  });
+  expect(await sync.sync()).toEqual(none);
+});
+
+test("failed and hanging pulls neither throw nor block", async () => {
+  const errors: unknown[] = [];
+  const failing = new LearningsSync(
+    {
+      sync: () => Promise.reject(new Error("Could not resolve host")),
+    },
+    (error) => errors.push(error),
+  );
+  failing.start(0);
+  await sleep(10);
+  expect(errors).toEqual([new Error("Could not resolve host")]);
+
+  // A pull that never ends (e.g. a network timeout yet to fire)
+  const hanging = new LearningsSync({ sync: () => new Promise(() => {}) });
+  const started = Date.now();
+  hanging.start(0.001);
+  hanging.stop();
+  expect(Date.now() - started).toBeLessThan(50);
+
+  // Later pulls still run after a failure
+  await expect(failing.sync()).rejects.toThrow("Could not resolve host");
+});
@@ -0,0 +1,80 @@
+import type { LearningsModule } from "./learnings.js";
+import type { SyncResult } from "./repository.js";
+
+type Change = "added" | "changed" | "removed";
+
+/**
+ * Combine a learning's earlier change with a later one
+ */
+function combine(earlier: Change, later: Change): Change | undefined {
+  if (earlier === "added" && later === "removed") return undefined;
+  if (earlier === "added") return "added";
+  if (earlier === "removed" && later === "added") return "changed";
+  return later;
+}
+
+/**
+ * Periodically pulls a learnings repository.
+ *
+ * Background syncs accumulate what arrived, so an explicit `sync()` reports
+ * everything since the previous explicit sync, not only its own pull.
+ */
+export class LearningsSync {
+  private readonly pending = new Map<string, Change>();
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(
+    private readonly learnings: Pick<LearningsModule, "sync">,
+    private readonly onError: (error: unknown) => void = () => {},
+  ) {}
+
+  /**
+   * Sync now, then every `intervalMinutes` (0 disables the interval). Pulls
+   * run in the background: this returns without waiting for the first one.
+   */
+  start(intervalMinutes: number): void {
+    this.pull().catch(this.onError);
+
+    if (intervalMinutes > 0) {
+      this.timer = setInterval(() => {
+        this.pull().catch(this.onError);
+      }, intervalMinutes * 60_000);
+      // Don't keep the process alive just to sync
+      this.timer.unref();
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Sync now and report what arrived since the last explicit sync
+   */
+  async sync(): Promise<SyncResult> {
+    await this.pull();
+
+    const result: SyncResult = { added: [], changed: [], removed: [] };
+    for (const [filename, change] of this.pending) {
+      result[change].push(filename);
+    }
+    this.pending.clear();
+    return result;
+  }
+
+  private async pull(): Promise<void> {
+    const result = await this.learnings.sync();
+    for (const change of ["added", "changed", "removed"] as const) {
+      for (const filename of result[change]) {
+        const earlier = this.pending.get(filename);
+        const combined = earlier ? combine(earlier, change) : change;
+        if (combined) {
+          this.pending.set(filename, combined);
+        } else {
+          this.pending.delete(filename);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { existsSync, type FSWatcher, watch } from "node:fs";
+import { sep } from "node:path";
+
+/**
+ * Watches learnings directories, including their folders, and reports
+ * changed learning files, including edits made outside the server (editors,
+ * git pull)
+ */
+export class LearningsWatcher {
+  private readonly watchers = new Map<string, FSWatcher>();
+
+  constructor(
+    private readonly onChange: (dir: string, filename: string) => void,
+  ) {}
+
+  /**
+   * Start watching a directory. No-op if it is already watched or does not
+   * exist yet; call again once it has been created.
+   */
+  watch(dir: string): void {
+    if (this.watchers.has(dir) || !existsSync(dir)) {
+      return;
+    }
+
+    const watcher = watch(dir, { recursive: true }, (_event, filename) => {
+      const segments = filename?.split(sep) ?? [];
+      if (
+        filename?.endsWith(".md") &&
+        segments.at(-1) !== "README.md" &&
+        !segments.some((segment) => segment.startsWith("."))
+      ) {
+        this.onChange(dir, segments.join("/"));
+      }
+    });
+    // Directory removed or inaccessible: stop watching, allow re-watching
+    watcher.on("error", () => this.unwatch(dir));
+    this.watchers.set(dir, watcher);
+  }
+
+  /**
+   * Stop watching a directory
+   */
+  unwatch(dir: string): void {
+    this.watchers.get(dir)?.close();
+    this.watchers.delete(dir);
+  }
+
+  /**
+   * Stop watching all directories
+   */
+  close(): void {
+    for (const dir of [...this.watchers.keys()]) {
+      this.unwatch(dir);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { existsSync } from "node:fs";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { parseLearning } from "./front-matter.js";
+import type { TrashedLearning } from "./repository.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deleted learnings kept in `.trash/` next to the learnings, so a mistaken
+ * delete can be undone.
+ *
+ * Each item is the learning file as it was (`<id>.md`) plus its deletion
+ * metadata (`<id>.json`). Like the cache, the trash has its own
+ * `.gitignore` and is never committed.
+ */
+export class Trash {
+  private readonly dir: string;
+
+  /**
+   * @param retentionDays Items older than this are purged automatically
+   *   (0 keeps them until purged explicitly)
+   */
+  constructor(
+    baseDir: string,
+    private readonly retentionDays: number,
+  ) {
+    this.dir = join(baseDir, ".trash");
+  }
+
+  /**
+   * Move a learning file into the trash
+   */
+  async put(filepath: string, filename: string): Promise<TrashedLearning> {
+    const markdown = await readFile(filepath, "utf-8");
+    let title: string | undefined;
+    try {
+      title = parseLearning(markdown).metadata.title;
+    } catch {
+      // Malformed learnings can be trashed too
+    }
+
+    const deletedAt = new Date().toISOString();
+    const id = `${deletedAt.replace(/[-:.]/g, "")}-${filename.replace(/\.md$/, "").replaceAll("/", "-")}`;
+    const item: TrashedLearning = {
+      id,
+      filename,
+      ...(title ? { title } : {}),
+      deletedAt,
+    };
+
+    if (!existsSync(this.dir)) {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(join(this.dir, ".gitignore"), "*\n", "utf-8");
+    }
+    await writeFile(
+      join(this.dir, `${id}.json`),
+      JSON.stringify(item),
+      "utf-8",
+    );
+    await rename(filepath, join(this.dir, `${id}.md`));
+
+    await this.purgeExpired();
+    return item;
+  }
+
+  /**
+   * Items in the trash, most recently deleted first
+   */
+  async list(): Promise<TrashedLearning[]> {
+    await this.purgeExpired();
+    return this.items();
+  }
+
+  /**
+   * A trashed item and the content of its learning file
+   */
+  async get(id: string): Promise<{ item: TrashedLearning; markdown: string }> {
+    const item = (await this.items()).find((i) => i.id === id);
+    if (!item) {
+      throw new Error(`No learning with id ${id} in the trash`);
+    }
+    const markdown = await readFile(join(this.dir, `${id}.md`), "utf-8");
+    return { item, markdown };
+  }
+
+  /**
+   * Permanently delete items: the given one, or all of them
+   */
+  async purge(id?: string): Promise<TrashedLearning[]> {
+    const items = await this.items();
+    const purged = id === undefined ? items : items.filter((i) => i.id === id);
+    if (id !== undefined && purged.length === 0) {
+      throw new Error(`No learning with id ${id} in the trash`);
+    }
+    await this.remove(purged);
+    return purged;
+  }
+
+  private async purgeExpired(): Promise<void> {
+    if (this.retentionDays <= 0) return;
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    const expired = (await this.items()).filter(
+      (item) => Date.parse(item.deletedAt) < cutoff,
+    );
+    await this.remove(expired);
+  }
+
+  private async remove(items: TrashedLearning[]): Promise<void> {
+    for (const { id } of items) {
+      await rm(join(this.dir, `${id}.md`), { force: true });
+      await rm(join(this.dir, `${id}.json`), { force: true });
+    }
+  }
+
+  private async items(): Promise<TrashedLearning[]> {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+
+    const items: TrashedLearning[] = [];
+    for (const file of await readdir(this.dir)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        items.push(JSON.parse(await readFile(join(this.dir, file), "utf-8")));
+      } catch {
+        // Skip metadata left half-written by a crash
+      }
+    }
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+}
@@ -0,0 +1,43 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+/**
+ * Directory for derived data (index, embeddings) next to the learnings
+ */
+export function cacheDir(baseDir: string): string {
+  return join(baseDir, ".cache");
+}
+
+/**
+ * Read a JSON cache file, or null when it is missing or corrupt
+ */
+export async function readCacheFile<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a JSON cache file atomically.
+ *
+ * The cache directory gets its own `.gitignore` so it is never committed,
+ * whichever repository the learnings live in. Failures are ignored: a lost
+ * cache only costs recomputing it later.
+ */
+export async function writeCacheFile(path: string, data: unknown) {
+  try {
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, ".gitignore"), "*\n", "utf-8");
+    }
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data), "utf-8");
+    await rename(tempPath, path);
+  } catch {
+    // Cache is best-effort
+  }
+}
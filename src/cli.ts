@@ -1,10 +1,33 @@
 #!/usr/bin/env bun
-import { join } from "node:path";
+import { dirname, join, relative, resolve } from "node:path";
 import { program } from "commander";
-import { loadConfig } from "./config.js";
-import { FileSystemRepository } from "./FileSystemRepository.js";
-import { GitHubRepository } from "./GitHubRepository.js";
-import { LearningsModule } from "./learnings.js";
+import { loadRepositories } from "./config.js";
+import { checkFilename, FilenameError } from "./filenames.js";
+import { danglingLinks, orphans, toDot } from "./graph.js";
+import { initRepository } from "./init.js";
+import type { MoveResult } from "./learnings.js";
+import type { ParseError, SearchResult } from "./repository.js";
+import {
+  defaultScope,
+  findScope,
+  flushScopes,
+  openLocal,
+  openRepositories,
+  type Scope,
+  scopeLabel,
+} from "./scopes.js";
+import {
+  formatSettings,
+  loadSettings,
+  PROJECT_CONFIG_FILE,
+  userConfigPath,
+} from "./settings.js";
+import { DUPLICATE_THRESHOLD, duplicateClusters } from "./similarity.js";
+
+// Helper function to collect the values of a repeatable option
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
 
 // Parse global options
 program
@@ -12,16 +35,60 @@ program
   .description("CLI for managing personal learnings")
   .version("1.0.0")
   .option(
-    "--repository <path-or-url>",
-    "Repository path or GitHub URL for storing learnings",
+    "--repository <spec>",
+    "Repository path or GitHub URL for storing learnings. Repeat for several, as [name=]<path-or-url>[,read-only][,priority=<n>][,clone=<path>]",
+    collect,
   )
   .option(
     "--clone-location <path>",
-    "Where to clone remote repositories (default: ~/.learnings/<repo-name>)",
+    "Where to clone a single remote repository (default: ~/.learnings/<owner>/<repo-name>)",
   )
   .option(
     "--local-learnings-folder <path>",
     "Local learnings folder relative to current directory (default: learnings)",
+  )
+  .option(
+    "--commit-strategy <strategy>",
+    "When to commit repository learnings: immediate, batched, or manual (default: immediate)",
+  )
+  .option(
+    "--commit-delay <seconds>",
+    "Seconds without writes before a batched commit (default: 30)",
+  )
+  .option(
+    "--commit-template <template>",
+    "Commit message for repository learnings, with {action}, {filename}, {title} and {topic} placeholders",
+  )
+  .option(
+    "--commit-footer <footer>",
+    "Text appended to commit messages (empty for none)",
+  )
+  .option("--commit-author <identity>", 'Commit author as "Name <email>"')
+  .option("--committer <identity>", 'Committer as "Name <email>"')
+  .option("--sign-commits <format>", "Sign commits: gpg or ssh")
+  .option("--signing-key <key>", "Key to sign commits with")
+  .option(
+    "--trash-retention <days>",
+    "Days deleted learnings stay in the trash (0 keeps them, default: 30)",
+  )
+  .option(
+    "--topic-folders",
+    "Put new learnings in a folder named after their topic",
+  )
+  .option("--no-topic-folders", "Keep new learnings out of topic folders")
+  .option(
+    "--readme-index",
+    "Rebuild a README.md index of each repository's learnings after every change",
+  )
+  .option("--no-readme-index", "Don't maintain the README.md index")
+  .option(
+    "--default-scope <scope>",
+    "Where new learnings go: a repository name or local (default: the first writable repository)",
+  )
+  .option("--limit <number>", "Results per listing (default: 10)")
+  .option(
+    "--sync-interval <minutes>",
+    "How often the MCP server pulls git repositories (0 disables, default: 10)",
   );
 
 // List learnings command
@@ -31,80 +98,89 @@ program
   .description("List and search learnings")
   .option("-t, --topic <topic>", "Filter by topic")
   .option("-T, --tags <tags...>", "Filter by tags (must have all)")
-  .option("-s, --search <query>", "Text search in title and content")
-  .option("-l, --limit <number>", "Maximum number of results (default: 10)", "10")
-  .option("--scope <scope>", "Filter by scope: global, local, or all", "all")
+  .option(
+    "-s, --search <query>",
+    "Ranked full-text search (terms are OR-ed, use AND to require terms)",
+  )
+  .option(
+    "-m, --mode <mode>",
+    "Search mode: keyword or semantic (similar meaning)",
+    "keyword",
+  )
+  .option("-l, --limit <number>", "Maximum number of results (default: 10)")
+  .option(
+    "--scope <scope>",
+    "Filter by scope: a repository name, local, or all",
+    "all",
+  )
   .action(async (options) => {
     const globalOpts = program.opts();
-    const { globalLearnings, localLearnings } = await initializeLearnings(globalOpts);
+    const { scopes, settings } = await initializeLearnings(globalOpts);
 
-    const limit = Number.parseInt(options.limit, 10);
+    const limit = options.limit
+      ? Number.parseInt(options.limit, 10)
+      : (settings.limit ?? 10);
     const filters = {
       topic: options.topic,
       tags: options.tags,
       search: options.search,
+      mode: options.mode,
     };
 
-    const shouldShowGlobal = options.scope === "all" || options.scope === "global";
-    const shouldShowLocal = options.scope === "all" || options.scope === "local";
+    let selected = scopes;
+    try {
+      if (options.scope !== "all") {
+        selected = [findScope(scopes, options.scope)];
+      }
+    } catch (error) {
+      fail("Error listing learnings", error);
+    }
 
-    const [globalResults, localResults, globalMeta, localMeta] = await Promise.all([
-      shouldShowGlobal ? globalLearnings.list(filters) : Promise.resolve([]),
-      shouldShowLocal ? localLearnings.list(filters) : Promise.resolve([]),
-      globalLearnings.getMetadata(),
-      localLearnings.getMetadata(),
+    const [lists, metadata] = await Promise.all([
+      Promise.all(
+        selected.map(async ({ name, learnings }) =>
+          (await learnings.list(filters)).map((r) => ({ ...r, scope: name })),
+        ),
+      ),
+      Promise.all(scopes.map((s) => s.learnings.getMetadata())),
     ]);
+    const parseErrors = (
+      await Promise.all(selected.map((s) => s.learnings.parseErrors()))
+    ).flat();
 
-    const totalResults = globalResults.length + localResults.length;
+    // Scopes come by priority; a search ranks across all of them
+    const results = lists.flat();
+    if (options.search) {
+      results.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+    }
+
+    const allTopics = [...new Set(metadata.flatMap((m) => m.topics))];
+    const allTags = [...new Set(metadata.flatMap((m) => m.tags))];
 
-    if (totalResults === 0) {
-      const allTopics = [...new Set([...globalMeta.topics, ...localMeta.topics])];
-      const allTags = [...new Set([...globalMeta.tags, ...localMeta.tags])];
+    if (results.length === 0) {
       console.log("No learnings found matching the criteria.\n");
       console.log(`Available topics: ${allTopics.join(", ") || "none"}`);
       console.log(`Available tags: ${allTags.join(", ") || "none"}`);
+      printParseErrors(parseErrors);
       return;
     }
 
     // Show metadata
-    const allTopics = [...new Set([...globalMeta.topics, ...localMeta.topics])];
-    const allTags = [...new Set([...globalMeta.tags, ...localMeta.tags])];
     console.log(`Available topics: ${allTopics.join(", ") || "none"}`);
     console.log(`Available tags: ${allTags.join(", ") || "none"}\n`);
 
-    // Apply limit proportionally
-    const globalLimit = Math.ceil(limit * (globalResults.length / totalResults));
-    const localLimit = limit - globalLimit;
-
-    if (globalResults.length > 0 && shouldShowGlobal) {
-      console.log(`Global learnings (${globalResults.length}):\n`);
-      const display = globalResults.slice(0, globalLimit);
-      for (const result of display) {
-        console.log(`  ${result.filename}: ${result.title} (topic: ${result.topic})`);
-      }
-      if (globalResults.length > globalLimit) {
-        console.log(`  ... and ${globalResults.length - globalLimit} more`);
-      }
-      console.log();
-    }
-
-    if (localResults.length > 0 && shouldShowLocal) {
-      console.log(`Local learnings (${localResults.length}):\n`);
-      const display = localResults.slice(0, localLimit);
-      for (const result of display) {
-        console.log(`  ${result.filename}: ${result.title} (topic: ${result.topic})`);
-      }
-      if (localResults.length > localLimit) {
-        console.log(`  ... and ${localResults.length - localLimit} more`);
-      }
-      console.log();
+    console.log(`Learnings (${results.length}):\n`);
+    for (const result of results.slice(0, limit)) {
+      printResult(result);
     }
+    console.log();
 
-    if (totalResults > limit) {
+    if (results.length > limit) {
       console.log(
-        `Showing ${Math.min(limit, totalResults)} of ${totalResults} total results. Use --limit to see more.`,
+        `Showing ${limit} of ${results.length} total results. Use --limit to see more.`,
       );
     }
+    printParseErrors(parseErrors);
   });
 
 // Get learning command
@@ -115,42 +191,43 @@ program
   .argument("<filename>", "Learning filename (e.g., git-rebase.md)")
   .action(async (filename) => {
     const globalOpts = program.opts();
-    const { globalLearnings, localLearnings } = await initializeLearnings(globalOpts);
+    const { scopes } = await initializeLearnings(globalOpts);
 
-    const results = await Promise.allSettled([
-      globalLearnings.get(filename),
-      localLearnings.get(filename),
-    ]);
+    try {
+      checkFilename(filename);
+    } catch (error) {
+      fail("Error reading learning", error);
+    }
 
-    const globalLearning = results[0].status === "fulfilled" ? results[0].value : null;
-    const localLearning = results[1].status === "fulfilled" ? results[1].value : null;
+    const results = await Promise.allSettled(
+      scopes.map((s) => s.learnings.get(filename)),
+    );
 
-    if (!globalLearning && !localLearning) {
+    if (results.every((r) => r.status !== "fulfilled")) {
       console.error(`Learning not found: ${filename}`);
       process.exit(1);
     }
 
-    if (globalLearning) {
-      console.log(`# ${globalLearning.metadata.title}\n`);
-      console.log(`**Scope**: Global`);
-      console.log(`**Topic**: ${globalLearning.metadata.topic}`);
-      console.log(`**Tags**: ${globalLearning.metadata.tags.join(", ") || "none"}`);
-      console.log(`**Created**: ${globalLearning.metadata.created}`);
-      console.log(`**Related**: ${globalLearning.metadata.related.join(", ") || "none"}\n`);
-      console.log("---\n");
-      console.log(globalLearning.content);
-    }
-
-    if (localLearning) {
-      if (globalLearning) console.log("\n---\n");
-      console.log(`# ${localLearning.metadata.title}\n`);
-      console.log(`**Scope**: Local`);
-      console.log(`**Topic**: ${localLearning.metadata.topic}`);
-      console.log(`**Tags**: ${localLearning.metadata.tags.join(", ") || "none"}`);
-      console.log(`**Created**: ${localLearning.metadata.created}`);
-      console.log(`**Related**: ${localLearning.metadata.related.join(", ") || "none"}\n`);
+    let first = true;
+    for (const [i, result] of results.entries()) {
+      const scope = scopes[i];
+      if (result.status !== "fulfilled" || !scope) continue;
+      const { metadata, content } = result.value;
+      if (!first) console.log("\n---\n");
+      first = false;
+      console.log(`# ${metadata.title}\n`);
+      console.log(`**Scope**: ${scopeLabel(scope.name)}`);
+      console.log(`**Topic**: ${metadata.topic}`);
+      console.log(`**Tags**: ${metadata.tags.join(", ") || "none"}`);
+      console.log(`**Created**: ${metadata.created}`);
+      if (metadata.updated) {
+        console.log(`**Updated**: ${metadata.updated}`);
+      }
+      console.log(`**Related**: ${metadata.related.join(", ") || "none"}`);
+      const backlinks = await scope.learnings.backlinks(filename);
+      console.log(`**Backlinks**: ${backlinks.join(", ") || "none"}\n`);
       console.log("---\n");
-      console.log(localLearning.content);
+      console.log(content);
     }
   });
 
@@ -158,7 +235,10 @@ program
 program
   .command("add")
   .description("Create a new learning")
-  .requiredOption("-f, --filename <filename>", "Filename (format: {context}-{title}.md)")
+  .requiredOption(
+    "-f, --filename <filename>",
+    "Filename (format: {context}-{title}.md)",
+  )
   .requiredOption("-t, --title <title>", "Short descriptive title")
   .requiredOption("--topic <topic>", "Main topic/category")
   .requiredOption("-o, --one-liner <oneLiner>", "One-line description")
@@ -168,17 +248,18 @@ program
   .option("-r, --related <related...>", "Related learning filenames")
   .option(
     "-s, --scope <scope>",
-    "Where to store (global or local)",
-    "global",
+    "Where to store: a repository name or local (default: --default-scope, or the first writable repository)",
   )
+  .option("--force", "Add even if similar learnings already exist")
   .action(async (options) => {
     const globalOpts = program.opts();
-    const { globalLearnings, localLearnings } = await initializeLearnings(globalOpts);
-
-    const targetLearnings = options.scope === "local" ? localLearnings : globalLearnings;
+    const { scopes, settings } = await initializeLearnings(globalOpts);
 
     try {
-      const result = await targetLearnings.add({
+      const target = options.scope
+        ? findScope(scopes, options.scope)
+        : defaultScope(scopes, settings.defaultScope);
+      const params = {
         filename: options.filename,
         title: options.title,
         topic: options.topic,
@@ -187,66 +268,899 @@ program
         context: options.context,
         examples: options.examples,
         related: options.related,
-      });
+      };
+
+      if (!options.force) {
+        const draft = target.learnings.draft(params);
+        const similar = (
+          await Promise.all(
+            scopes.map(async ({ name, learnings }) =>
+              (
+                await learnings.findSimilar(draft)
+              ).map((match) => ({
+                scope: name,
+                ...match,
+              })),
+            ),
+          )
+        )
+          .flat()
+          .sort((a, b) => b.score - a.score)
+          .slice(0, 3);
+
+        if (similar.length > 0) {
+          console.error("Not created: similar learnings already exist:\n");
+          for (const { scope, learning, score } of similar) {
+            console.error(
+              `  ${learning.filename} (${scope}): ${learning.metadata.title} [${Math.round(score * 100)}% similar]`,
+            );
+          }
+          console.error(
+            "\nEdit one of them with 'learnings edit', or pass --force to add anyway.",
+          );
+          process.exit(1);
+        }
+      }
+
+      const result = await target.learnings.add(params);
 
-      console.log(`Successfully created ${options.scope} learning: ${result.filename}`);
+      console.log(
+        `Successfully created ${target.name} learning: ${result.filename}`,
+      );
     } catch (error) {
-      console.error(
-        `Error creating learning: ${error instanceof Error ? error.message : String(error)}`,
+      fail("Error creating learning", error);
+    }
+  });
+
+// Edit learning command
+program
+  .command("edit")
+  .description("Update fields of an existing learning")
+  .argument("<filename>", "Learning filename to edit")
+  .requiredOption(
+    "-s, --scope <scope>",
+    "Where the learning is stored (a repository name or local)",
+  )
+  .option("-t, --title <title>", "New title")
+  .option("--topic <topic>", "New topic")
+  .option("-o, --one-liner <oneLiner>", "New one-line description")
+  .option("-c, --context <context>", "New Context section")
+  .option("-e, --examples <examples>", "New Examples section")
+  .option("-T, --tags <tags...>", "New tags (replaces existing)")
+  .option(
+    "-r, --related <related...>",
+    "New related filenames (replaces existing)",
+  )
+  .option("--no-related", "Remove every related filename")
+  .action(async (filename, options) => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    try {
+      const { learnings } = findScope(scopes, options.scope);
+      const result = await learnings.update(filename, {
+        title: options.title,
+        topic: options.topic,
+        tags: options.tags,
+        oneLiner: options.oneLiner,
+        context: options.context,
+        examples: options.examples,
+        related: options.related === false ? [] : options.related,
+      });
+      console.log(
+        `Successfully updated ${options.scope} learning: ${result.filename}`,
       );
-      process.exit(1);
+    } catch (error) {
+      fail("Error updating learning", error);
     }
   });
 
+// Rename learning command
+program
+  .command("mv")
+  .alias("rename")
+  .description(
+    "Rename a learning, rewriting references to it, or move it to another scope",
+  )
+  .argument("<filename>", "Current learning filename")
+  .argument("[newFilename]", "New filename (default: keep the current one)")
+  .requiredOption(
+    "-s, --scope <scope>",
+    "Where the learning is stored (a repository name or local)",
+  )
+  .option("--to-scope <scope>", "Move the learning to this scope")
+  .option(
+    "--on-conflict <action>",
+    "When moving and the filename exists in the other scope: fail (show the diff), merge, or rename",
+    "fail",
+  )
+  .action(async (filename, newFilename, options) => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    const toScope = options.toScope ?? options.scope;
+
+    try {
+      const source = findScope(scopes, options.scope).learnings;
+      if (toScope !== options.scope) {
+        const result = await source.moveTo(
+          findScope(scopes, toScope).learnings,
+          filename,
+          newFilename,
+          options.onConflict,
+        );
+        printMoveResult(result, options.scope, toScope);
+        if (result.status === "conflict") {
+          console.error(
+            "\nRetry with --on-conflict merge to merge them, or give a different filename.",
+          );
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (!newFilename) {
+        throw new Error("Give a new filename or --to-scope");
+      }
+      const { filename: renamed, updated } = await source.rename(
+        filename,
+        newFilename,
+      );
+      console.log(
+        `Successfully renamed ${options.scope} learning ${filename} to ${renamed}`,
+      );
+      if (updated.length > 0) {
+        console.log(`Updated references in: ${updated.join(", ")}`);
+      }
+    } catch (error) {
+      fail("Error renaming learning", error);
+    }
+  });
+
+// Promote and demote learning commands, between the local scope and a
+// repository
+for (const [name, promote] of [
+  ["promote", true],
+  ["demote", false],
+] as const) {
+  const from = promote ? "local" : "repository";
+  const to = promote ? "repository" : "local";
+  program
+    .command(name)
+    .description(
+      `Move ${from} learnings to ${to} scope, one by filename or all matching a filter`,
+    )
+    .argument("[filename]", `The ${from} learning to move (omit for bulk mode)`)
+    .option("--as <newFilename>", `Filename in ${to} scope`)
+    .option(
+      promote ? "--to <name>" : "--from <name>",
+      `Repository to move ${promote ? "to" : "from"} (default: the first writable one)`,
+    )
+    .option("-t, --topic <topic>", "Bulk mode: filter by topic")
+    .option("-T, --tags <tags...>", "Bulk mode: filter by tags (must have all)")
+    .option("-s, --search <query>", "Bulk mode: filter by text search")
+    .option(
+      "--on-conflict <action>",
+      `When the filename exists in ${to} scope: fail (show the diff), merge, or rename`,
+      "fail",
+    )
+    .action(async (filename, options) => {
+      const globalOpts = program.opts();
+      const { repositories, local } = await initializeLearnings(globalOpts);
+
+      try {
+        const repositoryName = promote ? options.to : options.from;
+        const repository = repositoryName
+          ? findScope(repositories, repositoryName)
+          : defaultScope(repositories);
+        const [source, target] = promote
+          ? [local, repository]
+          : [repository, local];
+
+        if (!filename && !options.topic && !options.tags && !options.search) {
+          throw new Error(
+            "Give a filename, or --topic, --tags or --search to move in bulk",
+          );
+        }
+        const results = filename
+          ? [
+              await source.learnings.moveTo(
+                target.learnings,
+                filename,
+                options.as,
+                options.onConflict,
+              ),
+            ]
+          : await source.learnings.moveAllTo(
+              target.learnings,
+              {
+                topic: options.topic,
+                tags: options.tags,
+                search: options.search,
+              },
+              options.onConflict,
+            );
+
+        if (results.length === 0) {
+          console.log(`No ${source.name} learnings match the filter.`);
+        }
+        for (const result of results) {
+          printMoveResult(result, source.name, target.name);
+        }
+        if (results.some((r) => r.status === "conflict")) {
+          console.error(
+            "\nRetry with --on-conflict merge to combine conflicting learnings, or --on-conflict rename to keep both.",
+          );
+          process.exit(1);
+        }
+      } catch (error) {
+        fail("Error moving learning", error);
+      }
+    });
+}
+
 // Remove learning command
 program
   .command("remove")
   .alias("rm")
-  .description("Delete a learning")
+  .description("Delete a learning (moves it to the trash)")
   .argument("<filename>", "Learning filename to delete")
   .requiredOption(
     "-s, --scope <scope>",
-    "Where to delete from (global or local)",
+    "Where to delete from (a repository name or local)",
   )
   .action(async (filename, options) => {
     const globalOpts = program.opts();
-    const { globalLearnings, localLearnings } = await initializeLearnings(globalOpts);
-
-    const targetLearnings = options.scope === "local" ? localLearnings : globalLearnings;
+    const { scopes } = await initializeLearnings(globalOpts);
 
     try {
-      await targetLearnings.remove(filename);
-      console.log(`Successfully deleted ${options.scope} learning: ${filename}`);
+      await findScope(scopes, options.scope).learnings.remove(filename);
+      console.log(
+        `Successfully deleted ${options.scope} learning: ${filename} (moved to trash)`,
+      );
     } catch (error) {
-      console.error(
-        `Error deleting learning: ${error instanceof Error ? error.message : String(error)}`,
+      fail("Error deleting learning", error);
+    }
+  });
+
+// Link graph command
+program
+  .command("graph")
+  .description("Check links between learnings, or export them as DOT or JSON")
+  .option(
+    "-s, --scope <scope>",
+    "Which learnings: a repository name or local (default: the first repository)",
+  )
+  .option("--format <format>", "report, dot or json", "report")
+  .action(async (options) => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    try {
+      const { learnings } = options.scope
+        ? findScope(scopes, options.scope)
+        : defaultScope(scopes);
+      const graph = await learnings.graph();
+
+      if (options.format === "dot") {
+        process.stdout.write(toDot(graph));
+        return;
+      }
+      if (options.format === "json") {
+        console.log(JSON.stringify(graph, null, 2));
+        return;
+      }
+
+      const dangling = danglingLinks(graph);
+      const orphaned = orphans(graph);
+      console.log(
+        `${graph.nodes.length} learnings, ${graph.links.length} links\n`,
       );
+      console.log(`Dangling links (${dangling.length}):`);
+      for (const link of dangling) {
+        console.log(`  ${link.from} -> ${link.to} (${link.source})`);
+      }
+      console.log(`\nOrphans (${orphaned.length}):`);
+      for (const filename of orphaned) {
+        console.log(`  ${filename}`);
+      }
+    } catch (error) {
+      fail("Error building link graph", error);
+    }
+  });
+
+// Diagnostics command
+program
+  .command("diagnostics")
+  .description("List learning files that could not be parsed")
+  .action(async () => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    try {
+      const errors = (
+        await Promise.all(
+          scopes.map(async ({ name, learnings }) =>
+            (
+              await learnings.parseErrors()
+            ).map((error) => ({
+              scope: name,
+              error,
+            })),
+          ),
+        )
+      ).flat();
+      if (errors.length === 0) {
+        console.log("All learning files parse.");
+        return;
+      }
+
+      console.log(`${errors.length} file(s) could not be parsed:\n`);
+      for (const { scope, error } of errors) {
+        console.log(`  ${error.filename} (${scope}): ${error.message}`);
+      }
       process.exit(1);
+    } catch (error) {
+      fail("Error reading diagnostics", error);
+    }
+  });
+
+// Lint command
+program
+  .command("lint")
+  .description("Check learnings against the learning guidelines")
+  .option(
+    "-s, --scope <scope>",
+    "Only check this scope (a repository name or local)",
+  )
+  .option("--fix", "Fix what can be fixed automatically")
+  .action(async (options) => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    try {
+      const selected = options.scope
+        ? [findScope(scopes, options.scope)]
+        : scopes;
+      let errors = 0;
+      let warnings = 0;
+      let fixes = 0;
+      for (const { name: scope, learnings, readOnly } of selected) {
+        if (options.fix && readOnly) {
+          console.log(`Not fixing ${scope} learnings: read-only`);
+        }
+        const fix = options.fix && !readOnly;
+        for (const result of await learnings.lint({ fix })) {
+          if (result.diagnostics.length === 0 && result.fixed.length === 0) {
+            continue;
+          }
+          console.log(`${result.filename} (${scope}):`);
+          for (const d of result.diagnostics) {
+            console.log(
+              `  ${d.severity} [${d.rule}] ${d.message}${d.fixable && !readOnly ? " (fixable)" : ""}`,
+            );
+            if (d.severity === "error") errors++;
+            else warnings++;
+          }
+          for (const message of result.fixed) {
+            console.log(`  fixed: ${message}`);
+            fixes++;
+          }
+        }
+      }
+
+      console.log(
+        `\n${errors} error(s), ${warnings} warning(s)${options.fix ? `, ${fixes} fixed` : ""}`,
+      );
+      if (errors > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      fail("Error linting learnings", error);
+    }
+  });
+
+// Duplicate report command
+program
+  .command("dedupe")
+  .description("List clusters of near-duplicate learnings across scopes")
+  .option(
+    "--threshold <similarity>",
+    `Minimum similarity between 0 and 1 (default: ${DUPLICATE_THRESHOLD})`,
+  )
+  .action(async (options) => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    try {
+      const items = (
+        await Promise.all(
+          scopes.map(async ({ name, learnings }) =>
+            (
+              await learnings.all()
+            ).map((learning) => ({
+              scope: name,
+              learning,
+            })),
+          ),
+        )
+      ).flat();
+      const threshold =
+        options.threshold === undefined
+          ? DUPLICATE_THRESHOLD
+          : Number(options.threshold);
+      const clusters = duplicateClusters(items, threshold);
+
+      if (clusters.length === 0) {
+        console.log("No near-duplicate learnings found.");
+        return;
+      }
+
+      console.log(`Found ${clusters.length} cluster(s) of near-duplicates:\n`);
+      for (const cluster of clusters) {
+        console.log(`Up to ${Math.round(cluster.score * 100)}% similar:`);
+        for (const { scope, learning } of cluster.items) {
+          console.log(
+            `  ${learning.filename} (${scope}): ${learning.metadata.title}`,
+          );
+        }
+        console.log();
+      }
+    } catch (error) {
+      fail("Error finding duplicates", error);
+    }
+  });
+
+// Trash commands
+const trash = program
+  .command("trash")
+  .description("List, restore or purge deleted learnings");
+
+trash
+  .command("list")
+  .alias("ls")
+  .description("List deleted learnings")
+  .option(
+    "-s, --scope <scope>",
+    "Only list one scope (a repository name or local)",
+  )
+  .action(async (options) => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    try {
+      const selected = options.scope
+        ? [findScope(scopes, options.scope)]
+        : scopes;
+
+      let empty = true;
+      for (const { name, learnings } of selected) {
+        const items = await learnings.listTrash();
+        if (items.length === 0) continue;
+        empty = false;
+        console.log(`${scopeLabel(name)} trash:\n`);
+        for (const item of items) {
+          console.log(`  ${item.id}`);
+          console.log(
+            `    ${item.title ?? item.filename} (${item.filename}, deleted ${item.deletedAt})`,
+          );
+        }
+        console.log();
+      }
+      if (empty) {
+        console.log("The trash is empty.");
+      }
+    } catch (error) {
+      fail("Error listing trash", error);
+    }
+  });
+
+trash
+  .command("restore")
+  .description("Restore a deleted learning under its original filename")
+  .argument("<id>", "Trash id, as shown by 'trash list'")
+  .requiredOption(
+    "-s, --scope <scope>",
+    "Which scope's trash it is in (a repository name or local)",
+  )
+  .action(async (id, options) => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    try {
+      const { learnings } = findScope(scopes, options.scope);
+      const filename = await learnings.restoreFromTrash(id);
+      console.log(
+        `Successfully restored ${options.scope} learning: ${filename}`,
+      );
+    } catch (error) {
+      fail("Error restoring learning", error);
+    }
+  });
+
+trash
+  .command("purge")
+  .description("Permanently delete a trashed learning, or empty the trash")
+  .argument("[id]", "Trash id to purge (default: everything)")
+  .requiredOption(
+    "-s, --scope <scope>",
+    "Which scope's trash to purge (a repository name or local)",
+  )
+  .action(async (id, options) => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    try {
+      const { learnings } = findScope(scopes, options.scope);
+      const purged = await learnings.purgeTrash(id);
+      if (purged.length === 0) {
+        console.log("The trash is already empty.");
+        return;
+      }
+      console.log(`Permanently deleted ${purged.length} learning(s):\n`);
+      for (const item of purged) {
+        console.log(`  ${item.filename}`);
+      }
+    } catch (error) {
+      fail("Error purging trash", error);
+    }
+  });
+
+// Sync learnings command
+program
+  .command("sync")
+  .description("Pull the latest learnings of every git repository")
+  .action(async () => {
+    const globalOpts = program.opts();
+    const { repositories } = await initializeLearnings(globalOpts);
+
+    const syncable = repositories.filter((s) => s.learnings.canSync);
+    if (syncable.length === 0) {
+      console.log("No learnings are in a git repository, nothing to sync.");
+      return;
+    }
+
+    try {
+      for (const { name, learnings } of syncable) {
+        const result = await learnings.sync();
+        const total =
+          result.added.length + result.changed.length + result.removed.length;
+
+        if (total === 0) {
+          console.log(`${scopeLabel(name)} learnings are up to date.`);
+          continue;
+        }
+
+        for (const change of ["added", "changed", "removed"] as const) {
+          if (result[change].length === 0) continue;
+          const label = change.charAt(0).toUpperCase() + change.slice(1);
+          console.log(`${label} in ${name} (${result[change].length}):\n`);
+          for (const filename of result[change]) {
+            console.log(`  ${filename}`);
+          }
+          console.log();
+        }
+      }
+    } catch (error) {
+      fail("Error syncing learnings", error);
+    }
+  });
+
+// Commit learnings command
+program
+  .command("commit")
+  .description("Commit and push pending learning changes of every repository")
+  .action(async () => {
+    const globalOpts = program.opts();
+    const { repositories } = await initializeLearnings(globalOpts);
+
+    const committable = repositories.filter((s) => s.learnings.canCommit);
+    if (committable.length === 0) {
+      console.log("No learnings are in a git repository, nothing to commit.");
+      return;
+    }
+
+    try {
+      const committed: string[] = [];
+      for (const { name, learnings } of committable) {
+        for (const filename of await learnings.commit()) {
+          committed.push(`${filename} (${name})`);
+        }
+      }
+      if (committed.length === 0) {
+        console.log("No pending changes to commit.");
+        return;
+      }
+      console.log(`Committed and pushed ${committed.length} learning(s):\n`);
+      for (const filename of committed) {
+        console.log(`  ${filename}`);
+      }
+    } catch (error) {
+      fail("Error committing learnings", error);
+    }
+  });
+
+// Learning history command
+program
+  .command("history")
+  .description(
+    "Show the revisions of a learning in a git repository, diff them, or restore one",
+  )
+  .argument("<filename>", "Learning filename")
+  .option(
+    "-s, --scope <scope>",
+    "The repository the learning is in (default: the first one with history)",
+  )
+  .option(
+    "-d, --diff <revisions...>",
+    "Diff between two revisions, or one revision and the current version",
+  )
+  .option("-r, --restore <revision>", "Restore the learning to a revision")
+  .action(async (filename, options) => {
+    const globalOpts = program.opts();
+    const { scopes } = await initializeLearnings(globalOpts);
+
+    try {
+      const scope = options.scope
+        ? findScope(scopes, options.scope)
+        : scopes.find((s) => s.learnings.hasHistory);
+      if (!scope?.learnings.hasHistory) {
+        console.error(
+          `${options.scope ? `${scopeLabel(options.scope)} learnings are not` : "No learnings are"} in a git repository, no history available.`,
+        );
+        process.exit(1);
+      }
+      const { learnings } = scope;
+
+      if (options.restore) {
+        await learnings.restore(filename, options.restore);
+        console.log(
+          `Restored ${scope.name} learning ${filename} to revision ${options.restore}`,
+        );
+        return;
+      }
+
+      if (options.diff) {
+        const [from, to] = options.diff;
+        const diff = await learnings.diff(filename, from, to);
+        process.stdout.write(diff || "No differences.\n");
+        return;
+      }
+
+      const revisions = await learnings.history(filename);
+      for (const revision of revisions) {
+        console.log(
+          `${revision.hash.slice(0, 7)}  ${revision.date.slice(0, 10)}  ${revision.author}  ${revision.message}`,
+        );
+      }
+    } catch (error) {
+      fail("Error reading learning history", error);
+    }
+  });
+
+// Index command
+program
+  .command("index")
+  .description("Rebuild the README.md index of the learnings folder")
+  .option(
+    "-s, --scope <scope>",
+    "Only this scope: a repository name or local (default: every writable repository)",
+  )
+  .action(async (options) => {
+    const globalOpts = program.opts();
+    const { scopes, repositories } = await initializeLearnings(globalOpts);
+
+    try {
+      const selected = options.scope
+        ? [findScope(scopes, options.scope)]
+        : repositories.filter((s) => !s.readOnly);
+      for (const { name, path, learnings } of selected) {
+        const changed = await learnings.updateIndex();
+        console.log(
+          changed
+            ? `Updated ${join(path, "README.md")} (${name})`
+            : `${scopeLabel(name)} index is up to date.`,
+        );
+      }
+    } catch (error) {
+      fail("Error building index", error);
+    }
+  });
+
+// Init command
+program
+  .command("init")
+  .description(
+    "Create a learnings repository with a README, example learnings and a starter config",
+  )
+  .argument(
+    "[path]",
+    "Where to create it (default: the current directory)",
+    ".",
+  )
+  .option("--remote <url>", "Add this git remote as origin")
+  .option("--no-git", "Don't initialize a git repository")
+  .option(
+    "--config <where>",
+    `Write a starter config pointing at the repository: user (${userConfigPath()}), project (${PROJECT_CONFIG_FILE} here) or none`,
+    "user",
+  )
+  .action(async (path, options) => {
+    try {
+      const root = resolve(path);
+      let config: { path: string; repository: string } | undefined;
+      if (options.config === "user") {
+        config = { path: userConfigPath(), repository: root };
+      } else if (options.config === "project") {
+        const configPath = resolve(PROJECT_CONFIG_FILE);
+        config = {
+          path: configPath,
+          repository: relative(dirname(configPath), root) || ".",
+        };
+      } else if (options.config !== "none") {
+        throw new Error(
+          `Unknown --config ${options.config} (expected user, project or none)`,
+        );
+      }
+
+      const result = await initRepository(root, {
+        git: options.git,
+        remote: options.remote,
+        config,
+      });
+
+      console.log(`Initialized learnings repository in ${result.path}:\n`);
+      for (const file of result.files) {
+        console.log(`  ${file}`);
+      }
+      if (config) {
+        console.log(
+          result.configWritten
+            ? `\nWrote starter config to ${config.path}`
+            : `\n${config.path} already exists, not changed. Add ${config.repository} to its repositories to use the new repository.`,
+        );
+      }
+      if (result.git && options.remote) {
+        console.log(
+          `\nPush it with: git -C ${result.path} push -u origin HEAD`,
+        );
+      } else if (result.git) {
+        console.log(
+          `\nChanges are committed but not pushed until you add a remote: git -C ${result.path} remote add origin <url> && git -C ${result.path} push -u origin HEAD`,
+        );
+      }
+    } catch (error) {
+      fail("Error initializing repository", error);
+    }
+  });
+
+// Config commands
+const config = program
+  .command("config")
+  .description("Inspect the configuration");
+
+config
+  .command("show")
+  .description(
+    "Print the effective configuration and where each value came from",
+  )
+  .action(() => {
+    const globalOpts = program.opts();
+
+    try {
+      const loaded = loadSettings(globalOpts);
+      console.log("Config files:\n");
+      for (const file of loaded.files) {
+        console.log(`  ${file.path}${file.found ? "" : " (not found)"}`);
+      }
+      console.log(`\n${formatSettings(loaded)}`);
+    } catch (error) {
+      fail("Error loading configuration", error);
     }
   });
 
-// Helper function to initialize learnings modules
-async function initializeLearnings(globalOpts: {
-  repository?: string;
-  cloneLocation?: string;
-  localLearningsFolder?: string;
-}) {
-  const config = loadConfig({
-    repository: globalOpts.repository,
-    cloneLocation: globalOpts.cloneLocation,
+// Helper function to print the outcome of moving a learning between scopes
+function printMoveResult(result: MoveResult, from: string, to: string) {
+  if (result.status === "conflict") {
+    console.error(
+      `Cannot move ${from} learning ${result.from}: ${to} learning ${result.filename} already exists with different content:\n`,
+    );
+    console.error(result.diff);
+    return;
+  }
+  console.log(
+    result.merged
+      ? `Merged ${from} learning ${result.from} into ${to} learning ${result.filename}`
+      : `Successfully moved ${from} learning ${result.from} to ${to} learning ${result.filename}`,
+  );
+  if (result.dangling.length > 0) {
+    console.log(
+      `  These ${from} learnings still link to ${result.from}: ${result.dangling.join(", ")}`,
+    );
+  }
+}
+
+// Helper function to report a failed command and exit. Refused filenames
+// exit with status 2 and name the rule they broke.
+function fail(prefix: string, error: unknown): never {
+  console.error(
+    `${prefix}: ${error instanceof Error ? error.message : String(error)}`,
+  );
+  if (error instanceof FilenameError) {
+    console.error(`  code: ${error.code}`);
+    process.exit(2);
+  }
+  process.exit(1);
+}
+
+// Helper function to print a search result with its scope, score and snippet
+function printResult(result: SearchResult & { scope: string }) {
+  const score =
+    result.score !== undefined ? ` [score: ${result.score.toFixed(2)}]` : "";
+  console.log(
+    `  ${result.filename}: ${result.title} (${result.scope}, topic: ${result.topic})${score}`,
+  );
+  if (result.snippet) {
+    console.log(`    ${result.snippet}`);
+  }
+}
+
+// Helper function to note learning files left out because they don't parse
+function printParseErrors(errors: ParseError[]) {
+  if (errors.length === 0) {
+    return;
+  }
+  console.log(
+    `\n${errors.length} file(s) could not be parsed and are left out (see \`learnings diagnostics\`):`,
+  );
+  for (const error of errors) {
+    console.log(`  ${error.filename}`);
+  }
+}
+
+// Scopes opened by the running command
+let openedScopes: Scope[] = [];
+
+// Helper function to open the configured repositories and the local
+// learnings folder, with the settings from config files, environment
+// variables and flags. Scopes come by priority, local last.
+async function initializeLearnings(globalOpts: Record<string, unknown>) {
+  const { settings } = loadSettings(globalOpts);
+  const configs = loadRepositories(settings.repositories, {
+    cloneLocation: settings.cloneLocation,
   });
 
-  const globalRepository = config.isGitRepo
-    ? new GitHubRepository(config.learningsPath)
-    : new FileSystemRepository(config.learningsPath);
-  const globalLearnings = new LearningsModule(globalRepository);
+  const trashRetentionDays = settings.trashRetention;
+  const learningsOptions = { topicFolders: settings.topicFolders };
+  const repositories = openRepositories(
+    configs,
+    {
+      trashRetentionDays,
+      commitStrategy: settings.commitStrategy,
+      batchDelayMs: settings.commitDelay * 1000,
+      commitTemplate: settings.commitTemplate,
+      commitFooter: settings.commitFooter,
+      author: settings.commitAuthor,
+      committer: settings.committer,
+      sign: settings.signCommits,
+      signingKey: settings.signingKey,
+      readmeIndex: settings.readmeIndex,
+    },
+    learningsOptions,
+  );
 
-  const localLearningsFolder = globalOpts.localLearningsFolder || "learnings";
-  const localLearningsPath = join(process.cwd(), localLearningsFolder);
-  const localRepository = new FileSystemRepository(localLearningsPath);
-  const localLearnings = new LearningsModule(localRepository);
+  const local = openLocal(
+    resolve(process.cwd(), settings.localLearningsFolder),
+    { trashRetentionDays },
+    learningsOptions,
+  );
 
-  return { globalLearnings, localLearnings };
+  openedScopes = [...repositories, local];
+  return { scopes: openedScopes, repositories, local, settings };
 }
 
-program.parse();
+// Commit batched changes once the command is done: the commit delay would
+// outlast the process
+program.hook("postAction", () => flushScopes(openedScopes));
+
+await program.parseAsync();
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  formatRepositorySpec,
+  loadConfig,
+  loadRepositories,
+  parseRepositorySpec,
+} from "./config.js";
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "learnings-config-test-"));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * Create an empty git repository, with an origin if given
+ */
+async function gitRepository(name: string, origin?: string): Promise<string> {
+  const path = join(tempDir, name);
+  await mkdir(path);
+  execFileSync("git", ["init", "-q"], { cwd: path });
+  if (origin) {
+    execFileSync("git", ["remote", "add", "origin", origin], { cwd: path });
+  }
+  return path;
+}
+
+test("repository specs are parsed from their comma-separated form", () => {
+  expect(parseRepositorySpec("/shared/learnings")).toEqual({
+    repository: "/shared/learnings",
+  });
+  expect(
+    parseRepositorySpec(
+      "team=https://github.com/acme/learnings.git,read-only,priority=-2,clone=~/acme",
+    ),
+  ).toEqual({
+    name: "team",
+    repository: "https://github.com/acme/learnings.git",
+    readOnly: true,
+    priority: -2,
+    cloneLocation: "~/acme",
+  });
+  // Only a leading word is a name; "=" further on belongs to the location
+  expect(parseRepositorySpec("git@github.com:acme/a=b.git")).toEqual({
+    repository: "git@github.com:acme/a=b.git",
+  });
+  expect(parseRepositorySpec("org=/org, priority = 5 ")).toEqual({
+    name: "org",
+    repository: "/org",
+    priority: 5,
+  });
+
+  for (const spec of [
+    "team=/a,read-only",
+    "/a,priority=3,clone=/b",
+    "org=https://github.com/acme/org.git,read-only,priority=10",
+  ]) {
+    expect(formatRepositorySpec(parseRepositorySpec(spec))).toBe(spec);
+  }
+
+  expect(() => parseRepositorySpec("/a,priority=high")).toThrow(
+    "Invalid priority in --repository /a,priority=high",
+  );
+  for (const flag of ["readonly", "read-only=yes", "priority", "clone="]) {
+    expect(() => parseRepositorySpec(`/a,${flag}`)).toThrow(
+      `Unknown option "${flag}"`,
+    );
+  }
+});
+
+test("repositories are loaded highest priority first, keeping ties in order", async () => {
+  const specs = [];
+  for (const spec of [
+    { name: "first" },
+    { name: "org", priority: 10, readOnly: true },
+    { name: "second" },
+    { name: "personal", priority: -1 },
+    { name: "team", priority: 10 },
+  ]) {
+    specs.push({ ...spec, repository: await gitRepository(spec.name) });
+  }
+
+  const configs = loadRepositories(specs);
+
+  expect(configs.map((c) => [c.name, c.priority, c.readOnly])).toEqual([
+    ["org", 10, true],
+    ["team", 10, false],
+    ["first", 0, false],
+    ["second", 0, false],
+    ["personal", -1, false],
+  ]);
+  expect(configs[0]?.learningsPath).toBe(join(tempDir, "org", "learnings"));
+});
+
+test("repository names must be unique and not reserved", async () => {
+  const path = await gitRepository("team");
+
+  expect(() => loadRepositories([{ name: "local", repository: path }])).toThrow(
+    'Repository name "local" is reserved',
+  );
+  expect(() =>
+    loadRepositories([
+      { name: "team", repository: path },
+      { name: "team", repository: path },
+    ]),
+  ).toThrow('Repository name "team" is used twice');
+  expect(() =>
+    loadRepositories([{ repository: path }, { repository: path }]),
+  ).toThrow("Name each repository when giving more than one");
+});
+
+test("an existing clone of a different remote is refused", async () => {
+  const clone = await gitRepository(
+    "clone",
+    "https://github.com/someone/else.git",
+  );
+
+  expect(() =>
+    loadConfig({
+      repository: "https://github.com/acme/learnings.git",
+      cloneLocation: clone,
+    }),
+  ).toThrow(
+    `${clone} exists but is not a clone of https://github.com/acme/learnings.git (its origin is https://github.com/someone/else.git)`,
+  );
+
+  // The ssh form of the same remote is the same repository
+  expect(
+    loadConfig({
+      repository: "git@github.com:someone/else.git",
+      cloneLocation: clone,
+    }),
+  ).toEqual({ learningsPath: join(clone, "learnings"), isGitRepo: true });
+
+  const noOrigin = await gitRepository("no-origin");
+  expect(() =>
+    loadConfig({
+      repository: "https://github.com/acme/learnings.git",
+      cloneLocation: noOrigin,
+    }),
+  ).toThrow("(its origin is not set)");
+});
@@ -1,4 +1,4 @@
-import { execSync } from "node:child_process";
+import { execFileSync } from "node:child_process";
 import { existsSync, mkdirSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
@@ -11,21 +11,85 @@ export interface Config {
 }
 
 /**
- * Extract repository name from URL
- * e.g., "https://github.com/user/my-learnings.git" -> "my-learnings"
+ * One of several named repositories, as given on the command line
  */
-function extractRepoName(url: string): string {
-  const match = url.match(/\/([^/]+?)(\.git)?$/);
-  if (!match?.[1]) {
+export interface RepositorySpec {
+  /** Scope name (default: DEFAULT_REPOSITORY_NAME) */
+  name?: string;
+  /** Repository path or GitHub URL */
+  repository: string;
+  /** Where to clone it, for URLs */
+  cloneLocation?: string;
+  /** Refuse writes (e.g. the org-wide repository) */
+  readOnly?: boolean;
+  /** Higher is listed first and preferred for new learnings (default: 0) */
+  priority?: number;
+}
+
+export interface RepositoryConfig extends Config {
+  name: string;
+  readOnly: boolean;
+  priority: number;
+}
+
+/** Name of a repository given without one */
+export const DEFAULT_REPOSITORY_NAME = "global";
+
+/** Names taken by the local learnings folder and by resource URIs */
+const RESERVED_NAMES = ["local", "index", "topic", "tag"];
+
+/**
+ * Extract owner and repository name from URL
+ * e.g., "https://github.com/user/my-learnings.git" -> ["user", "my-learnings"]
+ */
+function extractRepoPath(url: string): [owner: string, name: string] {
+  const match = url.match(/(?:[/:]([^/:]+))?\/([^/]+?)(\.git)?\/?$/);
+  if (!match?.[2]) {
     throw new Error(`Cannot extract repository name from URL: ${url}`);
   }
-  return match[1];
+  return [match[1] ?? "", match[2]];
+}
+
+/**
+ * Host and path of a git URL, so the https and ssh forms of a repository
+ * compare equal
+ */
+function normalizeUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/^[a-z+]+:\/\/(?:[^@/]+@)?/i, "")
+    .replace(/^[^@/]+@([^:/]+):/, "$1/")
+    .replace(/(\.git)?\/*$/, "")
+    .toLowerCase();
+}
+
+/**
+ * URL of the `origin` remote of a clone, or undefined if it has none
+ */
+function originUrl(path: string): string | undefined {
+  try {
+    return execFileSync("git", ["remote", "get-url", "origin"], {
+      cwd: path,
+      encoding: "utf-8",
+      stdio: "pipe",
+    }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether `path` is a clone of `url`
+ */
+function isCloneOf(path: string, url: string): boolean {
+  const origin = originUrl(path);
+  return origin !== undefined && normalizeUrl(origin) === normalizeUrl(url);
 }
 
 /**
  * Check if a string is a URL
  */
-function isUrl(str: string): boolean {
+export function isUrl(str: string): boolean {
   return (
     str.startsWith("http://") ||
     str.startsWith("https://") ||
@@ -46,7 +110,7 @@ function cloneRepository(url: string, targetPath: string): void {
   }
 
   try {
-    execSync(`git clone "${url}" "${targetPath}"`, {
+    execFileSync("git", ["clone", url, targetPath], {
       stdio: "inherit",
     });
   } catch (error) {
@@ -86,7 +150,10 @@ Please provide a repository location:
     bun run index.ts --repository=/path/to/local/repo
 
 Optional: Specify where to clone remote repositories
-    --clone-location=~/.learnings/my-learnings
+    --clone-location=~/.learnings/user/my-learnings
+
+Repositories can also be set in ~/.config/learnings/config.json, a
+.learnings.json project file, or LEARNINGS_REPOSITORIES.
 
 The learnings will be stored in a 'learnings/' subdirectory within the repository.
 `);
@@ -97,8 +164,15 @@ The learnings will be stored in a 'learnings/' subdirectory within the repositor
 
   if (isUrl(options.repository)) {
     // It's a URL - need to clone or use existing clone
-    const repoName = extractRepoName(options.repository);
-    const defaultCloneLocation = join(homedir(), ".learnings", repoName);
+    const [owner, repoName] = extractRepoPath(options.repository);
+    // Clones used to go to ~/.learnings/<repo-name>, which repositories of
+    // different owners would share; keep using one made that way
+    const legacyCloneLocation = join(homedir(), ".learnings", repoName);
+    const defaultCloneLocation =
+      existsSync(legacyCloneLocation) &&
+      isCloneOf(legacyCloneLocation, options.repository)
+        ? legacyCloneLocation
+        : join(homedir(), ".learnings", owner, repoName);
     const cloneLocation = options.cloneLocation
       ? resolveTilde(options.cloneLocation)
       : defaultCloneLocation;
@@ -106,6 +180,10 @@ The learnings will be stored in a 'learnings/' subdirectory within the repositor
     if (!existsSync(cloneLocation)) {
       // Need to clone
       cloneRepository(options.repository, cloneLocation);
+    } else if (!isCloneOf(cloneLocation, options.repository)) {
+      throw new Error(
+        `${cloneLocation} exists but is not a clone of ${options.repository} (its origin is ${originUrl(cloneLocation) ?? "not set"}). Choose another location with --clone-location or clone=<path>.`,
+      );
     } else {
       console.error(`Using existing clone at ${cloneLocation}`);
     }
@@ -119,7 +197,8 @@ The learnings will be stored in a 'learnings/' subdirectory within the repositor
     if (!existsSync(repoPath)) {
       throw new Error(`Repository path does not exist: ${repoPath}
 
-Please ensure the path exists, or provide a GitHub URL to clone.
+Please ensure the path exists, create a new repository there with
+"learnings init <path>", or provide a GitHub URL to clone.
 `);
     }
 
@@ -147,3 +226,97 @@ Please ensure the path exists, or provide a GitHub URL to clone.
     isGitRepo,
   };
 }
+
+/**
+ * Parse a `--repository` value:
+ * `[name=]<path-or-url>[,read-only][,priority=<n>][,clone=<path>]`,
+ * e.g. `team=https://github.com/acme/learnings.git,priority=10`
+ */
+export function parseRepositorySpec(value: string): RepositorySpec {
+  const [location = "", ...flags] = value.split(",");
+  const named = location.match(/^([a-z0-9][a-z0-9_-]*)=(.+)$/i);
+  const spec: RepositorySpec = named
+    ? { name: named[1], repository: named[2] ?? "" }
+    : { repository: location };
+
+  for (const flag of flags) {
+    const separator = flag.indexOf("=");
+    const key = (separator === -1 ? flag : flag.slice(0, separator)).trim();
+    const flagValue =
+      separator === -1 ? undefined : flag.slice(separator + 1).trim();
+    if (key === "read-only" && flagValue === undefined) {
+      spec.readOnly = true;
+    } else if (key === "priority" && flagValue !== undefined) {
+      spec.priority = Number(flagValue);
+      if (!Number.isFinite(spec.priority)) {
+        throw new Error(`Invalid priority in --repository ${value}`);
+      }
+    } else if (key === "clone" && flagValue) {
+      spec.cloneLocation = flagValue;
+    } else {
+      throw new Error(
+        `Unknown option "${flag}" in --repository ${value} (expected read-only, priority=<n> or clone=<path>)`,
+      );
+    }
+  }
+  return spec;
+}
+
+/**
+ * Write a repository back in `--repository` form
+ */
+export function formatRepositorySpec(spec: RepositorySpec): string {
+  return [
+    spec.name ? `${spec.name}=${spec.repository}` : spec.repository,
+    ...(spec.readOnly ? ["read-only"] : []),
+    ...(spec.priority !== undefined ? [`priority=${spec.priority}`] : []),
+    ...(spec.cloneLocation ? [`clone=${spec.cloneLocation}`] : []),
+  ].join(",");
+}
+
+/**
+ * Load every configured repository, cloning remote ones as needed.
+ * Returns them by priority, highest first; equal priorities keep their
+ * order. `cloneLocation` applies when there is a single repository.
+ */
+export function loadRepositories(
+  specs: RepositorySpec[],
+  options: { cloneLocation?: string } = {},
+): RepositoryConfig[] {
+  if (specs.length === 0) {
+    // Reports the missing --repository
+    loadConfig({});
+  }
+
+  const names = new Set<string>();
+  const configs = specs.map((spec) => {
+    const name = spec.name ?? DEFAULT_REPOSITORY_NAME;
+    if (RESERVED_NAMES.includes(name)) {
+      throw new Error(`Repository name "${name}" is reserved`);
+    }
+    if (names.has(name)) {
+      throw new Error(
+        specs.length > 1 && !spec.name
+          ? "Name each repository when giving more than one (--repository <name>=<path-or-url>)"
+          : `Repository name "${name}" is used twice`,
+      );
+    }
+    names.add(name);
+
+    const config = loadConfig({
+      repository: spec.repository,
+      cloneLocation:
+        spec.cloneLocation ??
+        (specs.length === 1 ? options.cloneLocation : undefined),
+    });
+    return {
+      ...config,
+      name,
+      readOnly: spec.readOnly ?? false,
+      priority: spec.priority ?? 0,
+    };
+  });
+
+  // Array sort is stable
+  return configs.sort((a, b) => b.priority - a.priority);
+}
@@ -0,0 +1,89 @@
+import { relativeLink } from "./graph.js";
+
+/**
+ * A `## Heading` section of a learning's content
+ */
+export interface Section {
+  heading: string;
+  body: string;
+}
+
+/**
+ * Render the "See Also" section body of `filename` from related filenames,
+ * linking relative to the learning's folder
+ */
+export function renderSeeAlso(related: string[], filename: string): string {
+  return related
+    .map((r) => `- [${r}](${relativeLink(filename, r)})`)
+    .join("\n");
+}
+
+/**
+ * Split learning content into its one-liner and `## ` sections. Headings
+ * inside fenced code blocks (e.g. a Markdown example) don't start a section.
+ */
+export function parseContent(content: string): {
+  oneLiner: string;
+  sections: Section[];
+} {
+  const body = content.replace(/^# .*(\n|$)/, "");
+
+  // Lines of the intro, then of each section starting with its heading
+  const chunks: string[][] = [[]];
+  let fence: string | undefined;
+  for (const line of body.split("\n")) {
+    if (!fence && line.startsWith("## ")) {
+      chunks.push([line.slice(3)]);
+      continue;
+    }
+    const marker = line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+    if (marker && !fence) {
+      fence = marker;
+    } else if (
+      marker &&
+      fence &&
+      // A closing fence is at least as long and has no info string
+      marker[0] === fence[0] &&
+      marker.length >= fence.length &&
+      line.trim() === marker
+    ) {
+      fence = undefined;
+    }
+    chunks[chunks.length - 1]?.push(line);
+  }
+
+  const [intro = [], ...rest] = chunks;
+  const sections = rest.map(([heading = "", ...lines]) => ({
+    heading: heading.trim(),
+    body: lines.join("\n").trim(),
+  }));
+
+  return { oneLiner: intro.join("\n").trim(), sections };
+}
+
+/**
+ * Render learning content from title, one-liner and sections
+ */
+export function renderContent(
+  title: string,
+  oneLiner: string,
+  sections: Section[],
+): string {
+  return [
+    `# ${title}`,
+    oneLiner,
+    ...sections.map((s) => `## ${s.heading}\n\n${s.body}`),
+  ].join("\n\n");
+}
+
+/**
+ * Replace the body of a section, appending it if missing
+ */
+export function setSection(sections: Section[], heading: string, body: string) {
+  const existing = sections.find((s) => s.heading === heading);
+  if (existing) {
+    existing.body = body;
+  } else {
+    sections.push({ heading, body });
+  }
+}
@@ -0,0 +1,67 @@
+/** Unchanged lines shown around each change */
+const CONTEXT_LINES = 2;
+
+/**
+ * Line diff of two texts, in the style of a unified diff without hunk
+ * headers: unchanged lines start with a space, removed ones with `-` and
+ * added ones with `+`. Long unchanged stretches are collapsed to `...`.
+ * Returns an empty string when the texts are equal.
+ */
+export function diffLines(before: string, after: string): string {
+  if (before === after) {
+    return "";
+  }
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Longest common subsequence lengths of every pair of suffixes
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  const at = (i: number, j: number) => lcs[i * width + j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? at(i + 1, j + 1) + 1
+          : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i >= a.length || at(i, j + 1) >= at(i + 1, j))
+    ) {
+      lines.push(`+ ${b[j]}`);
+      j++;
+    } else {
+      lines.push(`- ${a[i]}`);
+      i++;
+    }
+  }
+
+  // Keep only unchanged lines close to a change
+  const changed = lines.map((line) => !line.startsWith("  "));
+  const output: string[] = [];
+  let skipped = false;
+  lines.forEach((line, index) => {
+    const near = changed
+      .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+      .some(Boolean);
+    if (near) {
+      output.push(line);
+      skipped = false;
+    } else if (!skipped) {
+      output.push("...");
+      skipped = true;
+    }
+  });
+  return output.join("\n");
+}
@@ -0,0 +1,426 @@
+import { createHash } from "node:crypto";
+import { tokenize } from "./search.js";
+
+/**
+ * Turns text into vectors for semantic search.
+ *
+ * Implementations may run locally or call a model; vectors are compared with
+ * cosine similarity, so they don't need to be normalized.
+ */
+export interface EmbeddingProvider {
+  /** Identifies the model; stored vectors from another provider are discarded */
+  readonly name: string;
+
+  /**
+   * Identifies the fitted model of a provider with `fit`; vectors embedded
+   * with another version are discarded
+   */
+  readonly version?: string;
+
+  /**
+   * Learn from the texts of every learning, for providers whose vectors
+   * depend on the corpus. Called before embedding; a provider whose model
+   * changed must change its `version` too.
+   */
+  fit?(texts: string[]): Promise<void>;
+
+  /**
+   * Embed a batch of texts, returning one vector per text
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Share of the learnings that may change before the model is refitted */
+const REFIT_RATIO = 0.1;
+
+/** Bump when tokenizing or fitting changes to discard stored vectors */
+const LSA_VERSION = 2;
+
+/** Extra directions tracked while fitting, so the strongest converge */
+const OVERSAMPLING = 10;
+
+/** Share of the TF-IDF variation the latent concepts keep */
+const ENERGY = 0.5;
+
+/** Rounds of subspace iteration when fitting */
+const POWER_ITERATIONS = 2;
+
+/**
+ * Latent concepts of a corpus: one row of `dimensions` weights per term
+ */
+interface LsaModel {
+  terms: Map<string, number>;
+  idf: Float64Array;
+  basis: Float64Array;
+  dimensions: number;
+}
+
+/**
+ * Sparse matrix of document rows: the columns and values of row `d` are at
+ * `starts[d]` up to `starts[d + 1]`
+ */
+interface SparseRows {
+  starts: number[];
+  columns: number[];
+  values: number[];
+}
+
+function hashText(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+/**
+ * Seeded pseudo-random numbers in [-0.5, 0.5), so fitting the same corpus
+ * always gives the same model
+ */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+  };
+}
+
+/**
+ * How often each stemmed word occurs in a text
+ */
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Multiply the documents by a dense row-major matrix of `width` columns:
+ * `terms` x `width` to documents x `width`, or back when `transpose`
+ */
+function multiply(
+  docs: SparseRows,
+  matrix: Float64Array,
+  width: number,
+  transpose: boolean,
+  rows: number,
+): Float64Array {
+  const result = new Float64Array(rows * width);
+  for (let d = 0; d + 1 < docs.starts.length; d++) {
+    for (let p = docs.starts[d] ?? 0; p < (docs.starts[d + 1] ?? 0); p++) {
+      const term = docs.columns[p] ?? 0;
+      const value = docs.values[p] ?? 0;
+      const from = (transpose ? d : term) * width;
+      const to = (transpose ? term : d) * width;
+      for (let j = 0; j < width; j++) {
+        result[to + j] =
+          (result[to + j] ?? 0) + value * (matrix[from + j] ?? 0);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Products of the columns of a row-major `rows` x `columns` matrix
+ */
+function gramMatrix(
+  matrix: Float64Array,
+  rows: number,
+  columns: number,
+): Float64Array {
+  const gram = new Float64Array(columns * columns);
+  for (let i = 0; i < rows; i++) {
+    const row = matrix.subarray(i * columns, (i + 1) * columns);
+    for (let a = 0; a < columns; a++) {
+      const x = row[a] ?? 0;
+      if (x === 0) continue;
+      for (let b = a; b < columns; b++) {
+        gram[a * columns + b] =
+          (gram[a * columns + b] ?? 0) + x * (row[b] ?? 0);
+      }
+    }
+  }
+  for (let a = 0; a < columns; a++) {
+    for (let b = 0; b < a; b++) {
+      gram[a * columns + b] = gram[b * columns + a] ?? 0;
+    }
+  }
+  return gram;
+}
+
+/**
+ * Orthonormalize the columns of a row-major `rows` x `columns` matrix in
+ * place, nearly: Cholesky QR reads the matrix row by row, but needs a
+ * second run to be accurate. Dependent columns become zero.
+ */
+function orthonormalize(matrix: Float64Array, rows: number, columns: number) {
+  const gram = gramMatrix(matrix, rows, columns);
+
+  // gram = R^T R, with R upper triangular
+  const r = new Float64Array(columns * columns);
+  for (let a = 0; a < columns; a++) {
+    for (let b = a; b < columns; b++) {
+      let sum = gram[a * columns + b] ?? 0;
+      for (let c = 0; c < a; c++) {
+        sum -= (r[c * columns + a] ?? 0) * (r[c * columns + b] ?? 0);
+      }
+      if (b === a) {
+        r[a * columns + a] =
+          sum > 1e-10 * (gram[a * columns + a] ?? 0) && sum > 0
+            ? Math.sqrt(sum)
+            : 0;
+      } else {
+        const pivot = r[a * columns + a] ?? 0;
+        r[a * columns + b] = pivot ? sum / pivot : 0;
+      }
+    }
+  }
+
+  // Each row x becomes y with y R = x
+  for (let i = 0; i < rows; i++) {
+    const row = matrix.subarray(i * columns, (i + 1) * columns);
+    for (let b = 0; b < columns; b++) {
+      const pivot = r[b * columns + b] ?? 0;
+      if (!pivot) {
+        row[b] = 0;
+        continue;
+      }
+      let sum = row[b] ?? 0;
+      for (let c = 0; c < b; c++) {
+        sum -= (row[c] ?? 0) * (r[c * columns + b] ?? 0);
+      }
+      row[b] = sum / pivot;
+    }
+  }
+}
+
+/**
+ * Eigenvectors of a small symmetric matrix (cyclic Jacobi), as the columns
+ * of a row-major matrix, with their eigenvalues
+ */
+function eigen(
+  symmetric: Float64Array,
+  size: number,
+): { vectors: Float64Array; values: number[] } {
+  const a = symmetric.slice();
+  const vectors = new Float64Array(size * size);
+  for (let i = 0; i < size; i++) vectors[i * size + i] = 1;
+  const at = (i: number, j: number) => a[i * size + j] ?? 0;
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    let diagonal = 0;
+    for (let p = 0; p < size; p++) {
+      diagonal += at(p, p) ** 2;
+      for (let q = p + 1; q < size; q++) off += at(p, q) ** 2;
+    }
+    if (off <= 1e-24 * diagonal) break;
+
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) {
+        if (Math.abs(at(p, q)) < 1e-300) continue;
+        // Rotate rows and columns p and q to zero a[p][q]
+        const theta = (at(q, q) - at(p, p)) / (2 * at(p, q));
+        const t =
+          Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta ** 2 + 1));
+        const c = 1 / Math.sqrt(t ** 2 + 1);
+        const s = t * c;
+        for (let k = 0; k < size; k++) {
+          const akp = at(k, p);
+          const akq = at(k, q);
+          a[k * size + p] = c * akp - s * akq;
+          a[k * size + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < size; k++) {
+          const apk = at(p, k);
+          const aqk = at(q, k);
+          a[p * size + k] = c * apk - s * aqk;
+          a[q * size + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < size; k++) {
+          const vkp = vectors[k * size + p] ?? 0;
+          const vkq = vectors[k * size + q] ?? 0;
+          vectors[k * size + p] = c * vkp - s * vkq;
+          vectors[k * size + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { vectors, values: Array.from({ length: size }, (_, i) => at(i, i)) };
+}
+
+/**
+ * Fit latent semantic analysis: the strongest singular directions of the
+ * term-document TF-IDF matrix, by randomized SVD. It is exact when there
+ * are fewer learnings than directions tracked.
+ */
+function fitLsa(texts: string[], maxDimensions: number): LsaModel {
+  const counts = texts.map(termCounts);
+  const df = new Map<string, number>();
+  for (const doc of counts) {
+    for (const term of doc.keys()) {
+      df.set(term, (df.get(term) ?? 0) + 1);
+    }
+  }
+  const terms = new Map([...df.keys()].sort().map((term, i) => [term, i]));
+  const idf = new Float64Array(terms.size);
+  for (const [term, i] of terms) {
+    idf[i] = Math.log((1 + texts.length) / (1 + (df.get(term) ?? 0))) + 1;
+  }
+
+  // Unit-length TF-IDF vectors of the documents
+  const docs: SparseRows = { starts: [0], columns: [], values: [] };
+  for (const doc of counts) {
+    const row = [...doc].map(([term, count]) => {
+      const i = terms.get(term) ?? 0;
+      return [i, (1 + Math.log(count)) * (idf[i] ?? 0)] as const;
+    });
+    const norm = Math.sqrt(row.reduce((sum, [, w]) => sum + w * w, 0)) || 1;
+    for (const [i, weight] of row) {
+      docs.columns.push(i);
+      docs.values.push(weight / norm);
+    }
+    docs.starts.push(docs.columns.length);
+  }
+
+  const width = Math.min(
+    maxDimensions + OVERSAMPLING,
+    texts.length,
+    terms.size,
+  );
+
+  // A basis of the directions the documents vary most in
+  const next = random(1);
+  const start = new Float64Array(texts.length * width).map(() => next());
+  let basis = multiply(docs, start, width, true, terms.size);
+  orthonormalize(basis, terms.size, width);
+  for (let round = 0; round < POWER_ITERATIONS; round++) {
+    const projected = multiply(docs, basis, width, false, texts.length);
+    basis = multiply(docs, projected, width, true, terms.size);
+    orthonormalize(basis, terms.size, width);
+  }
+  orthonormalize(basis, terms.size, width);
+
+  // The strongest of them: eigenvectors of the projected documents' Gram
+  // matrix, largest eigenvalue first
+  const projected = multiply(docs, basis, width, false, texts.length);
+  const { vectors, values } = eigen(
+    gramMatrix(projected, texts.length, width),
+    width,
+  );
+  const ranked = values
+    .map((value, i) => ({ value, i }))
+    .sort((a, b) => b.value - a.value);
+
+  // Enough concepts to keep ENERGY of the documents (each has length 1),
+  // but fewer than there are learnings, or nothing gets merged
+  let dimensions = 0;
+  for (let kept = 0; kept < ENERGY * texts.length; dimensions++) {
+    kept += ranked[dimensions]?.value ?? Number.POSITIVE_INFINITY;
+  }
+  dimensions = Math.max(
+    1,
+    Math.min(dimensions, maxDimensions, texts.length - 1, width),
+  );
+  const strongest = ranked.slice(0, dimensions).map(({ i }) => i);
+
+  const concepts = new Float64Array(terms.size * dimensions);
+  for (let t = 0; t < terms.size; t++) {
+    strongest.forEach((column, j) => {
+      let sum = 0;
+      for (let c = 0; c < width; c++) {
+        sum += (basis[t * width + c] ?? 0) * (vectors[c * width + column] ?? 0);
+      }
+      concepts[t * dimensions + j] = sum;
+    });
+  }
+
+  return { terms, idf, basis: concepts, dimensions };
+}
+
+/**
+ * Offline embedding provider based on latent semantic analysis.
+ *
+ * It is fitted over the learnings: their TF-IDF vectors are reduced to the
+ * strongest latent concepts, so words used in the same learnings land close
+ * together. A query can then match a learning it shares no words with,
+ * through other learnings using both vocabularies ("cleaning up history"
+ * finds "Interactive rebase" when another learning talks about cleaning up
+ * history with a rebase).
+ *
+ * Learnings added since the fit are projected onto its concepts; once more
+ * than REFIT_RATIO of them changed, the model is fitted again.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  version: string | undefined;
+  private model: LsaModel | undefined;
+  /** Hashes of the texts the model was fitted on */
+  private fitted = new Set<string>();
+
+  constructor(private readonly maxDimensions = 64) {
+    this.name = `local-lsa-v${LSA_VERSION}-${maxDimensions}`;
+  }
+
+  async fit(texts: string[]): Promise<void> {
+    const hashes = new Set(texts.map(hashText));
+    let changed = 0;
+    for (const hash of hashes) if (!this.fitted.has(hash)) changed++;
+    for (const hash of this.fitted) if (!hashes.has(hash)) changed++;
+    if (this.model && changed <= this.fitted.size * REFIT_RATIO) {
+      return;
+    }
+
+    // Sorted, so the same learnings always give the same model and version
+    const byHash = new Map(texts.map((text) => [hashText(text), text]));
+    const sorted = [...byHash.keys()].sort();
+    this.model = fitLsa(
+      sorted.map((hash) => byHash.get(hash) ?? ""),
+      this.maxDimensions,
+    );
+    this.fitted = hashes;
+    this.version = hashText(sorted.join()).slice(0, 12);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const { model } = this;
+    if (!model) return [];
+
+    const vector: number[] = new Array(model.dimensions).fill(0);
+    for (const [term, count] of termCounts(text)) {
+      const i = model.terms.get(term);
+      // Words the learnings never use carry no meaning for the model
+      if (i === undefined) continue;
+      const weight = (1 + Math.log(count)) * (model.idf[i] ?? 0);
+      for (let j = 0; j < model.dimensions; j++) {
+        vector[j] =
+          (vector[j] ?? 0) +
+          weight * (model.basis[i * model.dimensions + j] ?? 0);
+      }
+    }
+    return vector;
+  }
+}
+
+/**
+ * Cosine similarity of two vectors, 0 when either is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
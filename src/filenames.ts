@@ -0,0 +1,116 @@
+/** Longest filename accepted, folders included */
+export const MAX_FILENAME_LENGTH = 200;
+
+/**
+ * Why a filename was refused
+ */
+export type FilenameErrorCode =
+  | "empty"
+  | "absolute"
+  | "traversal"
+  | "hidden"
+  | "reserved"
+  | "extension"
+  | "too-long"
+  | "invalid-character";
+
+/**
+ * A filename refused by the filename policy. `code` tells callers what is
+ * wrong without parsing the message.
+ */
+export class FilenameError extends Error {
+  constructor(
+    readonly code: FilenameErrorCode,
+    readonly filename: string,
+    reason: string,
+  ) {
+    super(`Invalid learning filename "${filename}": ${reason}`);
+    this.name = "FilenameError";
+  }
+}
+
+/**
+ * Lowercase words joined by dashes, with accents dropped
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Check a learning filename against the policy and return it normalized:
+ * `/` separators, without `./` or repeated slashes.
+ *
+ * A filename is a path relative to the learnings folder. It must not be
+ * absolute, contain `..`, enter a dot folder (`.git`, `.trash`), be a
+ * `README.md`, lack the `.md` extension, contain control characters or be
+ * longer than MAX_FILENAME_LENGTH.
+ */
+export function checkFilename(filename: string): string {
+  const fail = (code: FilenameErrorCode, reason: string): never => {
+    throw new FilenameError(code, filename, reason);
+  };
+
+  if (/\p{Cc}/u.test(filename)) {
+    fail("invalid-character", "control characters are not allowed");
+  }
+  if (/^([a-z]:)?[\\/]/i.test(filename)) {
+    fail("absolute", "must be relative to the learnings folder");
+  }
+
+  const segments = filename
+    .split(/[\\/]/)
+    .filter((segment) => segment !== "" && segment !== ".");
+  const name = segments.at(-1);
+  if (!name) {
+    return fail("empty", "a filename is required");
+  }
+  if (segments.includes("..")) {
+    fail("traversal", '".." is not allowed');
+  }
+  if (segments.some((segment) => segment.startsWith("."))) {
+    fail("hidden", "names starting with a dot are not allowed");
+  }
+  if (name === "README.md") {
+    fail("reserved", "README.md is not a learning");
+  }
+  if (!name.endsWith(".md")) {
+    fail("extension", "must end with .md");
+  }
+
+  const normalized = segments.join("/");
+  if (normalized.length > MAX_FILENAME_LENGTH) {
+    fail(
+      "too-long",
+      `must be at most ${MAX_FILENAME_LENGTH} characters, got ${normalized.length}`,
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Filename for a new or renamed learning: `.md` appended when missing and
+ * every folder and the name slugified (e.g. "Git/Rebase Onto" becomes
+ * "git/rebase-onto.md"), then checked against the policy
+ */
+export function slugifyFilename(filename: string): string {
+  const trimmed = filename.trim();
+  const withExtension = /\.md$/i.test(trimmed)
+    ? trimmed.replace(/\.md$/i, ".md")
+    : `${trimmed}.md`;
+  const segments = checkFilename(withExtension).slice(0, -3).split("/");
+
+  const slugs = segments.map(slugify);
+  if (slugs.some((slug) => slug === "")) {
+    throw new FilenameError(
+      "invalid-character",
+      filename,
+      "every part needs letters or digits",
+    );
+  }
+  return checkFilename(`${slugs.join("/")}.md`);
+}
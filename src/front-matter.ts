@@ -0,0 +1,231 @@
+import { Document, isMap, isSeq, parseDocument } from "yaml";
+import type { LearningMetadata } from "./repository.js";
+
+/**
+ * Known front matter keys, in the order they are written for new learnings
+ */
+const METADATA_KEYS = [
+  "title",
+  "topic",
+  "tags",
+  "created",
+  "updated",
+  "related",
+] as const;
+
+const STRINGIFY_OPTIONS = {
+  lineWidth: 0,
+  flowCollectionPadding: false,
+} as const;
+
+/**
+ * A markdown file split into its raw parts, with line endings normalized
+ */
+interface RawLearning {
+  /** Original line ending, restored on write */
+  eol: string;
+  /** YAML between the `---` fences */
+  frontMatter: string;
+  /** Everything after the closing fence, including leading newlines */
+  body: string;
+}
+
+/**
+ * Split markdown into front matter and body
+ */
+function splitMarkdown(markdown: string): RawLearning {
+  const eol = markdown.includes("\r\n") ? "\r\n" : "\n";
+  const normalized = markdown.replace(/\r\n/g, "\n");
+  const match = normalized.match(/^---\n([\s\S]*?)\n---(?=\n|$)([\s\S]*)$/);
+
+  if (!match) {
+    throw new Error("Invalid learning format: missing front matter");
+  }
+
+  const frontMatter = match[1] ?? "";
+  if (!frontMatter.trim()) {
+    throw new Error("Invalid learning format: empty front matter");
+  }
+
+  return { eol, frontMatter, body: match[2] ?? "" };
+}
+
+/**
+ * Parse the front matter YAML, failing on syntax errors
+ */
+function parseYaml(frontMatter: string): Document {
+  const doc = parseDocument(frontMatter);
+  const [error] = doc.errors;
+  if (error) {
+    throw new Error(`Invalid learning front matter: ${error.message}`);
+  }
+  if (!isMap(doc.contents)) {
+    throw new Error("Invalid learning front matter: expected key/value pairs");
+  }
+  return doc;
+}
+
+/**
+ * Coerce a YAML value into a list of strings
+ */
+function toStringList(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .filter((item) => item !== null && item !== undefined)
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+}
+
+/**
+ * Coerce a YAML scalar into a trimmed string
+ */
+function toOptionalString(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const str = String(value).trim();
+  return str || undefined;
+}
+
+/**
+ * Read learning metadata out of a parsed front matter document
+ */
+function toMetadata(doc: Document): LearningMetadata {
+  const data = (doc.toJS() ?? {}) as Record<string, unknown>;
+
+  const title = toOptionalString(data.title);
+  const topic = toOptionalString(data.topic);
+  const created = toOptionalString(data.created);
+  const updated = toOptionalString(data.updated);
+
+  if (!title || !topic || !created) {
+    throw new Error(
+      "Invalid learning: missing required metadata (title, topic, created)",
+    );
+  }
+
+  return {
+    title,
+    topic,
+    tags: toStringList(data.tags),
+    created,
+    ...(updated ? { updated } : {}),
+    related: toStringList(data.related),
+  };
+}
+
+/**
+ * Parse front matter and content from markdown
+ */
+export function parseLearning(markdown: string): {
+  metadata: LearningMetadata;
+  content: string;
+} {
+  const { frontMatter, body } = splitMarkdown(markdown);
+  const metadata = toMetadata(parseYaml(frontMatter));
+  return { metadata, content: body.trim() };
+}
+
+/**
+ * Apply metadata to an existing front matter document, touching only the
+ * keys whose values changed so comments, quoting and styles survive
+ */
+function applyMetadata(doc: Document, metadata: LearningMetadata): boolean {
+  const current = toMetadata(doc);
+  let changed = false;
+
+  for (const key of METADATA_KEYS) {
+    const value = metadata[key];
+    if (JSON.stringify(value) === JSON.stringify(current[key])) continue;
+    changed = true;
+
+    if (value === undefined) {
+      doc.delete(key);
+      continue;
+    }
+
+    const previous = doc.get(key, true);
+    const node = doc.createNode(value);
+    if (isSeq(node)) {
+      node.flow = isSeq(previous) ? Boolean(previous.flow) : true;
+    }
+
+    if (doc.has(key)) {
+      doc.set(key, node);
+    } else {
+      insertAfterPrecedingKey(doc, key, node);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Insert a new key next to the known key that precedes it
+ */
+function insertAfterPrecedingKey(
+  doc: Document,
+  key: (typeof METADATA_KEYS)[number],
+  node: unknown,
+): void {
+  const map = doc.contents;
+  if (!isMap(map)) return;
+
+  doc.set(key, node);
+  const pair = map.items.pop();
+  if (!pair) return;
+
+  const preceding = METADATA_KEYS.slice(0, METADATA_KEYS.indexOf(key));
+  const index = map.items.findLastIndex((item) =>
+    preceding.some((k) => k === String(item.key)),
+  );
+  map.items.splice(index + 1, 0, pair);
+}
+
+/**
+ * Create front matter YAML for a new learning
+ */
+function createFrontMatter(metadata: LearningMetadata): string {
+  const doc = new Document();
+  for (const key of METADATA_KEYS) {
+    const value = metadata[key];
+    if (value === undefined) continue;
+    const node = doc.createNode(value);
+    if (isSeq(node)) node.flow = true;
+    doc.set(key, node);
+  }
+  return doc.toString(STRINGIFY_OPTIONS).trimEnd();
+}
+
+/**
+ * Serialize learning to markdown with front matter.
+ *
+ * When the previous markdown of the file is given, its formatting is kept:
+ * unchanged front matter and content are written back byte for byte, extra
+ * keys and comments are preserved, and CRLF line endings are restored.
+ */
+export function serializeLearning(
+  metadata: LearningMetadata,
+  content: string,
+  previous?: string,
+): string {
+  if (previous === undefined) {
+    return `---\n${createFrontMatter(metadata)}\n---\n\n${content}`;
+  }
+
+  const raw = splitMarkdown(previous);
+
+  const doc = parseYaml(raw.frontMatter);
+  const frontMatter = applyMetadata(doc, metadata)
+    ? doc.toString(STRINGIFY_OPTIONS).trimEnd()
+    : raw.frontMatter;
+
+  let body = raw.body;
+  if (body.trim() !== content.replace(/\r\n/g, "\n").trim()) {
+    const leading = body.match(/^\s*/)?.[0] || "\n\n";
+    const trailing = body.trim() ? (body.match(/\s*$/)?.[0] ?? "") : "";
+    body = `${leading}${content}${trailing}`;
+  }
+
+  const markdown = `---\n${frontMatter}\n---${body}`.replace(/\r\n/g, "\n");
+  return raw.eol === "\n" ? markdown : markdown.replace(/\n/g, raw.eol);
+}
@@ -0,0 +1,196 @@
+import { posix } from "node:path";
+import type { Learning } from "./repository.js";
+
+/**
+ * A link from one learning to another, from its `related` front matter or
+ * from a markdown link in its content
+ */
+export interface LearningLink {
+  from: string;
+  to: string;
+  source: "related" | "inline";
+}
+
+export interface LearningNode {
+  filename: string;
+  title: string;
+  topic: string;
+}
+
+/**
+ * Links between learnings. `links` includes dangling links, whose target is
+ * not one of `nodes`.
+ */
+export interface LearningGraph {
+  nodes: LearningNode[];
+  links: LearningLink[];
+}
+
+/** Markdown links and their target, e.g. `[Rebase](./git-rebase.md#usage)` */
+const INLINE_LINK = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Learning filename a link in `source` points to, or undefined for links
+ * to anything other than a markdown file among the learnings. Links are
+ * relative to the folder of `source`.
+ */
+function linkTarget(source: string, target: string): string | undefined {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith("/")) {
+    return undefined;
+  }
+  const [path = ""] = target.split("#");
+  if (!path.endsWith(".md")) {
+    return undefined;
+  }
+  let decoded = path;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  const filename = posix.join(posix.dirname(source), decoded);
+  return filename.startsWith("../") ? undefined : filename;
+}
+
+/**
+ * Link from the learning `source` to the learning `filename`, relative to
+ * the folder of `source`
+ */
+export function relativeLink(source: string, filename: string): string {
+  const link = posix.relative(posix.dirname(source), filename);
+  return link.startsWith("../") ? link : `./${link}`;
+}
+
+/**
+ * Links out of a learning, without duplicates. A target listed in `related`
+ * and linked inline (like the generated See Also section) counts once, as
+ * `related`.
+ */
+export function extractLinks(learning: Learning): LearningLink[] {
+  const links = new Map<string, LearningLink>();
+  const add = (to: string, source: LearningLink["source"]) => {
+    if (to !== learning.filename && !links.has(to)) {
+      links.set(to, { from: learning.filename, to, source });
+    }
+  };
+
+  for (const related of learning.metadata.related) {
+    add(posix.normalize(related), "related");
+  }
+  for (const match of learning.content.matchAll(INLINE_LINK)) {
+    const to = linkTarget(learning.filename, match[1] ?? "");
+    if (to) add(to, "inline");
+  }
+  return [...links.values()];
+}
+
+/**
+ * Build the link graph of a set of learnings
+ */
+export function buildGraph(learnings: Learning[]): LearningGraph {
+  return {
+    nodes: learnings
+      .map(({ filename, metadata }) => ({
+        filename,
+        title: metadata.title,
+        topic: metadata.topic,
+      }))
+      .sort((a, b) => a.filename.localeCompare(b.filename)),
+    links: learnings.flatMap(extractLinks),
+  };
+}
+
+/**
+ * Learnings that link to the given one
+ */
+export function backlinks(graph: LearningGraph, filename: string): string[] {
+  return [
+    ...new Set(graph.links.filter((l) => l.to === filename).map((l) => l.from)),
+  ].sort();
+}
+
+/**
+ * Links whose target learning does not exist
+ */
+export function danglingLinks(graph: LearningGraph): LearningLink[] {
+  const filenames = new Set(graph.nodes.map((n) => n.filename));
+  return graph.links.filter((l) => !filenames.has(l.to));
+}
+
+/**
+ * Learnings that neither link to nor are linked from another learning
+ */
+export function orphans(graph: LearningGraph): string[] {
+  const filenames = new Set(graph.nodes.map((n) => n.filename));
+  const connected = new Set<string>();
+  for (const link of graph.links) {
+    if (!filenames.has(link.to)) continue;
+    connected.add(link.from);
+    connected.add(link.to);
+  }
+  return graph.nodes
+    .map((n) => n.filename)
+    .filter((filename) => !connected.has(filename));
+}
+
+/**
+ * Render the graph in Graphviz DOT. Dangling links point to dashed nodes.
+ */
+export function toDot(graph: LearningGraph): string {
+  const quote = (value: string) =>
+    `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const lines = ["digraph learnings {", "  node [shape=box];"];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${quote(node.filename)} [label=${quote(node.title)}];`);
+  }
+  for (const target of new Set(danglingLinks(graph).map((l) => l.to))) {
+    lines.push(`  ${quote(target)} [style=dashed];`);
+  }
+  for (const link of graph.links) {
+    const style = link.source === "inline" ? " [style=dotted]" : "";
+    lines.push(`  ${quote(link.from)} -> ${quote(link.to)}${style};`);
+  }
+
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Point inline links in the content of the learning `source` to `from` at
+ * `to` instead, keeping any `./` prefix and anchor. Link text that is the old filename (as
+ * in See Also) is renamed too. When the learning itself moves to
+ * `newSource`, its other links are rewritten to still reach their targets
+ * from the new folder.
+ */
+export function rewriteLinks(
+  content: string,
+  source: string,
+  from: string,
+  to: string,
+  newSource = source,
+) {
+  const moved = posix.dirname(source) !== posix.dirname(newSource);
+  return content.replace(INLINE_LINK, (link, target: string) => {
+    const filename = linkTarget(source, target);
+    if (!filename || (filename !== from && !moved)) {
+      return link;
+    }
+    const newFilename = filename === from ? to : filename;
+    const [path = "", ...anchor] = target.split("#");
+    let newPath = relativeLink(newSource, newFilename);
+    // Keep links written without a "./" prefix that way
+    if (!path.startsWith("./") && newPath.startsWith("./")) {
+      newPath = newPath.slice(2);
+    }
+    const newTarget = [newPath, ...anchor].join("#");
+
+    // Link text can't contain "]", so the first "](" ends it
+    const textEnd = link.indexOf("](") + 2;
+    const text = link.slice(0, textEnd);
+    return (
+      (text === `[${filename}](` ? `[${newFilename}](` : text) +
+      link.slice(textEnd).replace(target, newTarget)
+    );
+  });
+}
@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, symlink } from "node:fs/promises";
+import { request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  LOCAL_FOLDER_HEADER,
+  parsePort,
+  serveHttp,
+  sessionLocalFolder,
+} from "./http-server.js";
+
+let tempDir: string;
+let root: string;
+let httpServer: Server | undefined;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "learnings-http-test-"));
+  root = join(tempDir, "root");
+  await mkdir(root);
+});
+
+afterEach(async () => {
+  httpServer?.closeAllConnections();
+  await new Promise((resolve) => httpServer?.close(resolve) ?? resolve(null));
+  httpServer = undefined;
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+/**
+ * POST a JSON-RPC message to the server, with any Host header
+ */
+function post(
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<{ status: number; headers: Record<string, unknown> }> {
+  const { port } = httpServer?.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        host: "127.0.0.1",
+        port,
+        path: "/mcp",
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers,
+        },
+      },
+      (res) => {
+        res.resume();
+        res.once("end", () =>
+          resolve({ status: res.statusCode ?? 0, headers: res.headers }),
+        );
+      },
+    );
+    req.once("error", reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+/**
+ * Serve test sessions, recording the folder each chose and which closed
+ */
+async function serve(options: { sessionIdleMs?: number } = {}) {
+  const folders: (string | undefined)[] = [];
+  const closed: number[] = [];
+  httpServer = await serveHttp({
+    host: "127.0.0.1",
+    port: 0,
+    allowedHosts: ["learnings.example"],
+    localFoldersRoot: root,
+    createSession: async (localFolder) => {
+      const session = folders.push(localFolder);
+      const server = new McpServer({ name: "test", version: "1.0.0" });
+      server.server.onclose = () => closed.push(session);
+      return server;
+    },
+    ...options,
+  });
+  return { folders, closed };
+}
+
+test("session folders stay inside the local learnings root", async () => {
+  expect(sessionLocalFolder(root, "project")).toBe(join(root, "project"));
+  expect(sessionLocalFolder(root, "team/./project/")).toBe(
+    join(root, "team", "project"),
+  );
+
+  for (const requested of [
+    "..",
+    "../outside",
+    "team/../../outside",
+    "/etc",
+    "C:\\Windows",
+    ".git",
+    "",
+    "./",
+  ]) {
+    expect(() => sessionLocalFolder(root, requested)).toThrow(
+      `Invalid ${LOCAL_FOLDER_HEADER}`,
+    );
+  }
+  expect(() => sessionLocalFolder(undefined, "project")).toThrow(
+    "the server has no --local-learnings-root",
+  );
+});
+
+test("symlinks can't lead a session folder out of the root", async () => {
+  await mkdir(join(tempDir, "outside"));
+  await mkdir(join(root, "inside"));
+  await symlink(join(tempDir, "outside"), join(root, "escape"));
+  await symlink(join(root, "inside"), join(root, "alias"));
+  await symlink(join(tempDir, "missing"), join(root, "dangling"));
+
+  expect(() => sessionLocalFolder(root, "escape")).toThrow(
+    `Invalid ${LOCAL_FOLDER_HEADER}`,
+  );
+  expect(() => sessionLocalFolder(root, "escape/project")).toThrow(
+    `Invalid ${LOCAL_FOLDER_HEADER}`,
+  );
+  expect(() => sessionLocalFolder(root, "dangling")).toThrow(
+    `Invalid ${LOCAL_FOLDER_HEADER}`,
+  );
+  expect(sessionLocalFolder(root, "alias/project")).toBe(
+    join(root, "alias", "project"),
+  );
+});
+
+test("only loopback and allowed host names are answered", async () => {
+  const { folders } = await serve();
+
+  expect((await post(initialize, { Host: "evil.example" })).status).toBe(403);
+  expect(folders).toEqual([]);
+
+  for (const host of ["localhost", "127.0.0.1", "learnings.example:8080"]) {
+    expect((await post(initialize, { Host: host })).status).toBe(200);
+  }
+  expect(folders).toHaveLength(3);
+});
+
+test("the session folder header is checked before a session starts", async () => {
+  const { folders } = await serve();
+
+  const refused = await post(initialize, { [LOCAL_FOLDER_HEADER]: "../x" });
+  expect(refused.status).toBe(400);
+  expect(folders).toEqual([]);
+
+  const accepted = await post(initialize, {
+    [LOCAL_FOLDER_HEADER]: "project",
+  });
+  expect(accepted.status).toBe(200);
+  expect(folders).toEqual([join(root, "project")]);
+});
+
+test("idle sessions are closed", async () => {
+  const { closed } = await serve({ sessionIdleMs: 100 });
+
+  const { headers } = await post(initialize);
+  const sessionId = String(headers["mcp-session-id"]);
+  expect(closed).toEqual([]);
+
+  await new Promise((resolve) => setTimeout(resolve, 300));
+  expect(closed).toEqual([1]);
+  const ping = { jsonrpc: "2.0", id: 2, method: "ping" };
+  expect((await post(ping, { "Mcp-Session-Id": sessionId })).status).toBe(404);
+});
+
+test("ports outside 1 to 65535 are refused", () => {
+  expect(parsePort("3000")).toBe(3000);
+  for (const port of ["", "abc", "3000x", "0", "65536", "-1", "1.5"]) {
+    expect(() => parsePort(port)).toThrow(`Invalid --port "${port}"`);
+  }
+});
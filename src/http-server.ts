@@ -0,0 +1,274 @@
+import { randomUUID } from "node:crypto";
+import { lstatSync, realpathSync } from "node:fs";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+} from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Request header a client sets on initialization to choose its local
+ * learnings folder for the session, a folder under the server's local
+ * learnings root
+ */
+export const LOCAL_FOLDER_HEADER = "x-learnings-local-folder";
+
+/** Host names the server always answers to */
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/** Close sessions that made no request for this long */
+const SESSION_IDLE_MS = 30 * 60_000;
+
+/**
+ * `path` with symlinks resolved, as far as it exists
+ */
+function realPath(path: string): string {
+  const missing: string[] = [];
+  let existing = path;
+  while (!lstatSync(existing, { throwIfNoEntry: false })) {
+    const parent = dirname(existing);
+    if (parent === existing) break;
+    missing.unshift(basename(existing));
+    existing = parent;
+  }
+  return join(realpathSync(existing), ...missing);
+}
+
+/**
+ * Folder a session asked for in LOCAL_FOLDER_HEADER, resolved under `root`.
+ * Without a root, sessions can't choose a folder; absolute paths, `..`, dot
+ * folders and symlinks leading out of the root are refused so a client
+ * can't reach outside it.
+ */
+export function sessionLocalFolder(
+  root: string | undefined,
+  requested: string,
+): string {
+  if (!root) {
+    throw new Error(
+      `The ${LOCAL_FOLDER_HEADER} header is not accepted: the server has no --local-learnings-root`,
+    );
+  }
+  const segments = requested
+    .split(/[\\/]/)
+    .filter((segment) => segment !== "" && segment !== ".");
+  const folder = resolve(root, ...segments);
+  const inside = (from: string, to: string) => {
+    const path = relative(from, to);
+    return !path.startsWith("..") && !isAbsolute(path);
+  };
+  let real: string | undefined;
+  try {
+    real = realPath(folder);
+  } catch {
+    // A dangling symlink
+  }
+  if (
+    /^([a-z]:)?[\\/]/i.test(requested) ||
+    segments.length === 0 ||
+    segments.some((segment) => segment.startsWith(".")) ||
+    !inside(root, folder) ||
+    real === undefined ||
+    !inside(realPath(resolve(root)), real)
+  ) {
+    throw new Error(
+      `Invalid ${LOCAL_FOLDER_HEADER} "${requested}": must be a folder under the local learnings root`,
+    );
+  }
+  return folder;
+}
+
+/**
+ * Port number given to `--port`
+ */
+export function parsePort(value: string): number {
+  const port = Number(value);
+  if (!/^\d+$/.test(value) || port < 1 || port > 65535) {
+    throw new Error(
+      `Invalid --port "${value}": expected a number from 1 to 65535`,
+    );
+  }
+  return port;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString("utf-8");
+  return body ? JSON.parse(body) : undefined;
+}
+
+/**
+ * Send a JSON-RPC error response
+ */
+function sendError(res: ServerResponse, status: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    }),
+  );
+}
+
+/**
+ * A client session: its transport, and requests it has in flight
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  open: number;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Serve MCP over Streamable HTTP at `/mcp`, returning the listening server.
+ *
+ * Each client session gets its own server from `createSession`, so
+ * session-scoped state such as the local learnings folder stays separate
+ * while all sessions share the global repository. A session without
+ * requests for `sessionIdleMs` is closed, as its client may be gone without
+ * ending it. Requests are only
+ * answered for loopback host names and `allowedHosts`, which keeps web
+ * pages from reaching the server through DNS rebinding. There is no
+ * authentication: expose the server beyond loopback only behind a proxy
+ * that authenticates.
+ */
+export async function serveHttp(options: {
+  host: string;
+  port: number;
+  /** Host names, besides loopback ones, clients may address the server by */
+  allowedHosts: string[];
+  /** Folder under which sessions may choose their local learnings folder */
+  localFoldersRoot?: string;
+  /** `localFolder` is the absolute folder the session chose, if any */
+  createSession: (localFolder: string | undefined) => Promise<McpServer>;
+  /** Close sessions idle for this long (default: 30 minutes) */
+  sessionIdleMs?: number;
+}): Promise<Server> {
+  const allowedHosts = new Set(
+    [...LOOPBACK_HOSTS, ...options.allowedHosts].map((h) => h.toLowerCase()),
+  );
+  const sessionIdleMs = options.sessionIdleMs ?? SESSION_IDLE_MS;
+  const sessions = new Map<string, Session>();
+
+  /**
+   * Count a request against the session, closing the session once it has
+   * been idle for `sessionIdleMs` after its last request ended
+   */
+  const track = (session: Session, res: ServerResponse) => {
+    session.open++;
+    clearTimeout(session.idleTimer);
+    res.once("close", () => {
+      if (--session.open > 0) return;
+      session.idleTimer = setTimeout(() => {
+        session.transport.close().catch(() => {});
+      }, sessionIdleMs);
+      session.idleTimer.unref();
+    });
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+      if (!allowedHosts.has(url.hostname)) {
+        sendError(res, 403, `Forbidden: unknown host ${url.hostname}`);
+        return;
+      }
+      if (url.pathname !== "/mcp") {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const body = req.method === "POST" ? await readJson(req) : undefined;
+      const sessionId = req.headers["mcp-session-id"];
+      let session =
+        typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+
+      if (!session) {
+        // 404 tells clients of a closed session to start a new one
+        if (sessionId) {
+          sendError(res, 404, "Session not found");
+          return;
+        }
+        if (!isInitializeRequest(body)) {
+          sendError(res, 400, "Bad Request: No valid session ID provided");
+          return;
+        }
+
+        const requested = req.headers[LOCAL_FOLDER_HEADER];
+        let localFolder: string | undefined;
+        try {
+          localFolder =
+            typeof requested === "string"
+              ? sessionLocalFolder(options.localFoldersRoot, requested)
+              : undefined;
+        } catch (error) {
+          sendError(
+            res,
+            400,
+            error instanceof Error ? error.message : String(error),
+          );
+          return;
+        }
+        const server = await options.createSession(localFolder);
+
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, newSession);
+          },
+        });
+        const newSession: Session = { transport, open: 0 };
+        transport.onclose = () => {
+          clearTimeout(newSession.idleTimer);
+          if (transport.sessionId) {
+            sessions.delete(transport.sessionId);
+          }
+        };
+        await server.connect(transport);
+        session = newSession;
+      }
+
+      track(session, res);
+      await session.transport.handleRequest(req, res, body);
+    } catch (error) {
+      if (!res.headersSent) {
+        sendError(
+          res,
+          error instanceof SyntaxError ? 400 : 500,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  console.error(
+    `Learnings MCP server listening on http://${options.host}:${port}/mcp`,
+  );
+  return httpServer;
+}
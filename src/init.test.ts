@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileSystemRepository } from "./FileSystemRepository.js";
+import { initRepository } from "./init.js";
+import { LearningsModule } from "./learnings.js";
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "learnings-init-test-"));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+test("init refuses folders that already hold a repository", async () => {
+  for (const existing of [".git", "learnings", "README.md"]) {
+    const root = join(tempDir, existing.replace(".", "dot-"));
+    await mkdir(root);
+    await writeFile(join(root, existing), "");
+
+    await expect(initRepository(root, { git: false })).rejects.toThrow(
+      `it already has ${existing}`,
+    );
+    expect(await readFile(join(root, existing), "utf-8")).toBe("");
+  }
+});
+
+test("seed learnings pass lint and are indexed", async () => {
+  const root = join(tempDir, "repo");
+  const result = await initRepository(root, { git: false });
+
+  expect(result.files).toContain("learnings/README.md");
+  expect(result.files).toContain("README.md");
+  const learnings = new LearningsModule(
+    new FileSystemRepository(join(root, "learnings")),
+  );
+  const results = await learnings.lint();
+  expect(results.flatMap((r) => r.diagnostics)).toEqual([]);
+  expect(results).toHaveLength(2);
+
+  const index = await readFile(join(root, "learnings", "README.md"), "utf-8");
+  expect(index).toContain("](./git-undo-last-commit.md)");
+});
+
+test("--no-git leaves git out", async () => {
+  const root = join(tempDir, "repo");
+  const result = await initRepository(root, { git: false });
+
+  expect(result.git).toBe(false);
+  expect(existsSync(join(root, ".git"))).toBe(false);
+});
+
+test("the starter config is written once and never overwritten", async () => {
+  const configPath = join(tempDir, "config", "config.json");
+
+  const first = await initRepository(join(tempDir, "one"), {
+    git: false,
+    config: { path: configPath, repository: join(tempDir, "one") },
+  });
+  expect(first.configWritten).toBe(true);
+  expect(JSON.parse(await readFile(configPath, "utf-8"))).toEqual({
+    repositories: [join(tempDir, "one")],
+    readmeIndex: true,
+  });
+
+  await writeFile(configPath, '{ "limit": 3 }\n');
+  const second = await initRepository(join(tempDir, "two"), {
+    git: false,
+    config: { path: configPath, repository: join(tempDir, "two") },
+  });
+  expect(second.configWritten).toBe(false);
+  expect(await readFile(configPath, "utf-8")).toBe('{ "limit": 3 }\n');
+});
+
+test("a failed init removes what it created", async () => {
+  const root = join(tempDir, "repo");
+  await mkdir(root);
+  await writeFile(join(root, "notes.txt"), "keep");
+
+  await expect(initRepository(root, { remote: "--bad" })).rejects.toThrow(
+    "git remote failed",
+  );
+  expect(existsSync(join(root, "learnings"))).toBe(false);
+  expect(existsSync(join(root, ".git"))).toBe(false);
+  expect(existsSync(join(root, "README.md"))).toBe(false);
+  expect(await readFile(join(root, "notes.txt"), "utf-8")).toBe("keep");
+
+  await expect(
+    initRepository(join(tempDir, "new"), { remote: "--bad" }),
+  ).rejects.toThrow();
+  expect(existsSync(join(tempDir, "new"))).toBe(false);
+});
@@ -0,0 +1,175 @@
+import { execFileSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { FileSystemRepository } from "./FileSystemRepository.js";
+import { LearningsModule, type NewLearning } from "./learnings.js";
+import { README_FILENAME } from "./readme.js";
+
+/** What `init` refuses to overwrite */
+const EXISTING_REPOSITORY = [".git", "learnings", "README.md"];
+
+/**
+ * Example learnings for a new repository, written as the learning
+ * guidelines describe
+ */
+const SEED_LEARNINGS: NewLearning[] = [
+  {
+    filename: "git-undo-last-commit.md",
+    title: "Undo the last commit but keep its changes",
+    topic: "git",
+    tags: ["git", "undo"],
+    oneLiner:
+      "`git reset --soft HEAD~1` takes back a commit and leaves its changes staged.",
+    context:
+      "Use it when you committed too early, with the wrong message or on the wrong branch, and haven't pushed yet. The changes stay staged, so you can amend them, split them or commit them elsewhere.",
+    examples: `\`\`\`bash
+git reset --soft HEAD~1   # undo the commit, keep the changes staged
+git switch other-branch   # optionally move them to another branch
+git commit -m "Better message"
+\`\`\`
+
+Use \`--mixed\` (the default) to also unstage the changes. Once pushed, prefer \`git revert\` so others' history isn't rewritten.`,
+  },
+  {
+    filename: "learnings-write-atomic-learnings.md",
+    title: "Write one atomic learning per pattern",
+    topic: "learnings",
+    tags: ["learnings", "writing"],
+    oneLiner:
+      "A learning captures one reusable pattern, with when to use it and a concrete example.",
+    context:
+      "Use it whenever you add a learning here. Small learnings are found by search, stay accurate, and link to each other instead of repeating themselves. If a learning covers two things, split it and link the parts.",
+    examples: `Name the file \`{context}-{short-title}.md\`, then give:
+
+- a one-line description under the title
+- a **Context** section: when and why you'd use it
+- an **Examples** section: real commands or code, and why they work
+- related learnings in the front matter, listed under **See Also**
+
+[Undo the last commit](./git-undo-last-commit.md) is a learning of this shape.`,
+    related: ["git-undo-last-commit.md"],
+  },
+];
+
+export interface InitOptions {
+  /** Run `git init` and commit the new files (default: true) */
+  git?: boolean;
+  /** Remote to add as `origin` */
+  remote?: string;
+  /**
+   * Config file to write, pointing at the new repository as `repository`
+   * and keeping its index up to date. An existing file is left alone.
+   */
+  config?: { path: string; repository: string };
+}
+
+export interface InitResult {
+  path: string;
+  /** Files written, relative to `path` */
+  files: string[];
+  git: boolean;
+  /** Whether the starter config was written */
+  configWritten: boolean;
+}
+
+/**
+ * Run git in the new repository
+ */
+function git(path: string, args: string[]): void {
+  try {
+    execFileSync("git", args, { cwd: path, stdio: "pipe" });
+  } catch (error) {
+    const stderr =
+      error && typeof error === "object" && "stderr" in error
+        ? String(error.stderr).trim()
+        : "";
+    throw new Error(
+      `git ${args[0]} failed: ${stderr || (error instanceof Error ? error.message : String(error))}`,
+    );
+  }
+}
+
+/**
+ * README of a new repository. The index of its learnings is generated in
+ * `learnings/README.md`.
+ */
+const REPOSITORY_README = `# Learnings
+
+Short, atomic notes on patterns worth repeating: what to do, when, and a concrete example. Each learning is a markdown file in [\`learnings/\`](./learnings/) with YAML front matter; [\`learnings/README.md\`](./learnings/README.md) indexes them by topic.
+
+Add learnings with the learnings MCP server (\`add_learning\`) or the \`learnings add\` command, and check them with \`learnings lint\`.
+`;
+
+/**
+ * Create a learnings repository in `path`: a `learnings/` folder with
+ * example learnings and a generated README indexing them, a README,
+ * optionally a git repository with everything committed, and a starter
+ * config. Without a remote, the repository's changes are committed but
+ * not pushed.
+ *
+ * Refuses to touch a folder that already has a `.git`, `learnings` or
+ * `README.md`. If a step fails, what was created is removed so `init`
+ * can be run again.
+ */
+export async function initRepository(
+  path: string,
+  options: InitOptions = {},
+): Promise<InitResult> {
+  const root = resolve(path);
+  const existing = EXISTING_REPOSITORY.filter((name) =>
+    existsSync(join(root, name)),
+  );
+  if (existing.length > 0) {
+    throw new Error(
+      `Refusing to initialize ${root}: it already has ${existing.join(", ")}`,
+    );
+  }
+
+  const rootExisted = existsSync(root);
+  const useGit = options.git ?? true;
+  const files: string[] = [];
+  try {
+    const learnings = new LearningsModule(
+      new FileSystemRepository(join(root, "learnings"), { readmeIndex: true }),
+    );
+    for (const seed of SEED_LEARNINGS) {
+      const { filename } = await learnings.add(seed);
+      files.push(`learnings/${filename}`);
+    }
+    files.push(`learnings/${README_FILENAME}`);
+
+    await writeFile(join(root, "README.md"), REPOSITORY_README, "utf-8");
+    files.push("README.md");
+
+    if (useGit) {
+      git(root, ["init", "--quiet"]);
+      if (options.remote) {
+        git(root, ["remote", "add", "origin", options.remote]);
+      }
+      git(root, ["add", "--all"]);
+      git(root, ["commit", "--quiet", "-m", "Initialize learnings repository"]);
+    }
+  } catch (error) {
+    await Promise.all(
+      (rootExisted
+        ? EXISTING_REPOSITORY.map((name) => join(root, name))
+        : [root]
+      ).map((created) => rm(created, { recursive: true, force: true })),
+    );
+    throw error;
+  }
+
+  let configWritten = false;
+  if (options.config && !existsSync(options.config.path)) {
+    await mkdir(dirname(options.config.path), { recursive: true });
+    await writeFile(
+      options.config.path,
+      `${JSON.stringify({ repositories: [options.config.repository], readmeIndex: true }, null, 2)}\n`,
+      "utf-8",
+    );
+    configWritten = true;
+  }
+
+  return { path: root, files, git: useGit, configWritten };
+}
@@ -1,9 +1,12 @@
 import { afterEach, beforeEach, expect, test } from "bun:test";
-import { mkdtemp, rm } from "node:fs/promises";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { parseContent } from "./content.js";
 import { FileSystemRepository } from "./FileSystemRepository.js";
+import { danglingLinks, orphans, toDot } from "./graph.js";
 import { LearningsModule } from "./learnings.js";
+import { duplicateClusters } from "./similarity.js";
 
 let tempDir: string;
 let learnings: LearningsModule;
@@ -209,3 +212,699 @@ test("filename normalization", async () => {
   const learning = await learnings.get("no-extension.md");
   expect(learning.metadata.title).toBe("No Extension");
 });
+
+test("new filenames are slugified", async () => {
+  const base = {
+    title: "Title",
+    topic: "test",
+    oneLiner: "One liner",
+    context: "Context",
+    examples: "N/A",
+  };
+  expect(
+    (await learnings.add({ ...base, filename: "Git/Rebase Onto Main" }))
+      .filename,
+  ).toBe("git/rebase-onto-main.md");
+  expect(
+    (await learnings.add({ ...base, filename: " Café_Notes.MD" })).filename,
+  ).toBe("cafe-notes.md");
+  await expect(
+    learnings.add({ ...base, filename: "../outside" }),
+  ).rejects.toMatchObject({ code: "traversal" });
+  await expect(learnings.rename("cafe-notes.md", "???")).rejects.toMatchObject({
+    code: "invalid-character",
+  });
+});
+
+test("update learning - partial fields", async () => {
+  await learnings.add({
+    filename: "git-rebase.md",
+    title: "Git Rebsae",
+    topic: "git",
+    tags: ["git"],
+    oneLiner: "Rebase commits",
+    context: "When cleaning up history",
+    examples: "git rebase -i HEAD~3",
+  });
+
+  const before = await learnings.get("git-rebase.md");
+
+  await learnings.update("git-rebase.md", {
+    title: "Git Rebase",
+    examples: "git rebase -i main",
+  });
+
+  const learning = await learnings.get("git-rebase.md");
+  expect(learning.metadata.title).toBe("Git Rebase");
+  expect(learning.metadata.topic).toBe("git");
+  expect(learning.metadata.tags).toEqual(["git"]);
+  expect(learning.metadata.created).toBe(before.metadata.created);
+  expect(learning.metadata.updated).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  expect(learning.content).toStartWith("# Git Rebase\n\nRebase commits");
+  expect(learning.content).toContain("## Context\n\nWhen cleaning up history");
+  expect(learning.content).toContain("## Examples\n\ngit rebase -i main");
+  expect(learning.content).not.toContain("HEAD~3");
+});
+
+test("update learning - related rewrites See Also", async () => {
+  await learnings.add({
+    filename: "parent-learning.md",
+    title: "Parent Learning",
+    topic: "test",
+    oneLiner: "Has related learnings",
+    context: "Testing relationships",
+    examples: "N/A",
+    related: ["child-1.md"],
+  });
+
+  await learnings.update("parent-learning.md", { related: ["child-2.md"] });
+
+  let learning = await learnings.get("parent-learning.md");
+  expect(learning.metadata.related).toEqual(["child-2.md"]);
+  expect(learning.content).toContain("[child-2.md](./child-2.md)");
+  expect(learning.content).not.toContain("child-1.md");
+
+  await learnings.update("parent-learning.md", { related: [] });
+
+  learning = await learnings.get("parent-learning.md");
+  expect(learning.metadata.related).toEqual([]);
+  expect(learning.content).not.toContain("## See Also");
+});
+
+test("update learning - headings in code blocks stay in their section", async () => {
+  const examples =
+    "```markdown\n## Context\n\nNot a section\n```\n\n~~~\n## See Also\n```\nstill code\n~~~";
+  await learnings.add({
+    filename: "markdown-headings.md",
+    title: "Markdown headings",
+    topic: "markdown",
+    oneLiner: "Write section headings",
+    context: "When structuring a document",
+    examples,
+    related: ["git-rebase.md"],
+  });
+
+  await learnings.update("markdown-headings.md", { title: "Headings" });
+
+  const { sections } = parseContent(
+    (await learnings.get("markdown-headings.md")).content,
+  );
+  expect(sections).toEqual([
+    { heading: "Context", body: "When structuring a document" },
+    { heading: "Examples", body: examples },
+    { heading: "See Also", body: "- [git-rebase.md](./git-rebase.md)" },
+  ]);
+});
+
+test("update learning - missing file fails", async () => {
+  await expect(
+    learnings.update("missing.md", { title: "Nope" }),
+  ).rejects.toThrow();
+});
+
+test("search ranks multi-term queries with BM25", async () => {
+  await learnings.add({
+    filename: "git-rebase.md",
+    title: "Interactive Rebase",
+    topic: "git",
+    tags: ["git", "history"],
+    oneLiner: "Squash and reorder commits",
+    context: "When cleaning up history before merging",
+    examples: "git rebase -i HEAD~3",
+  });
+
+  await learnings.add({
+    filename: "git-log.md",
+    title: "Git Log",
+    topic: "git",
+    tags: ["git"],
+    oneLiner: "Inspect commits",
+    context: "When reading the history of a file",
+    examples: "git log --follow file.ts",
+  });
+
+  await learnings.add({
+    filename: "typescript-types.md",
+    title: "TypeScript Types",
+    topic: "typescript",
+    oneLiner: "Type definitions",
+    context: "When defining types",
+    examples: "type Foo = { bar: string }",
+  });
+
+  // Terms are OR-ed, stemmed, and title/tag matches rank higher
+  const results = await learnings.list({ search: "rebasing histories" });
+  expect(results.map((r) => r.filename)).toEqual([
+    "git-rebase.md",
+    "git-log.md",
+  ]);
+  expect(results[0]?.score).toBeGreaterThan(results[1]?.score ?? 0);
+  expect(results[0]?.snippet).toContain("**history**");
+
+  // AND requires every term
+  const both = await learnings.list({ search: "history AND squash" });
+  expect(both.map((r) => r.filename)).toEqual(["git-rebase.md"]);
+
+  // Stop words alone can't match anything
+  await expect(learnings.list({ search: "how to" })).rejects.toThrow(
+    'The search "how to" has no searchable words',
+  );
+  expect(
+    (await learnings.list({ search: "how to rebase" })).map((r) => r.filename),
+  ).toEqual(["git-rebase.md"]);
+});
+
+test("semantic search with a pluggable embedding provider", async () => {
+  // Toy provider: one dimension per concept
+  const concepts = [
+    ["history", "rebase", "squash"],
+    ["type", "typescript"],
+  ];
+  const provider = {
+    name: "test-concepts",
+    async embed(texts: string[]) {
+      return texts.map((text) =>
+        concepts.map(
+          (words) => words.filter((w) => text.toLowerCase().includes(w)).length,
+        ),
+      );
+    },
+  };
+  learnings = new LearningsModule(
+    new FileSystemRepository(tempDir, { embeddingProvider: provider }),
+  );
+
+  await learnings.add({
+    filename: "git-rebase.md",
+    title: "Interactive Rebase",
+    topic: "git",
+    oneLiner: "Squash commits",
+    context: "Before merging",
+    examples: "git rebase -i HEAD~3",
+  });
+  await learnings.add({
+    filename: "typescript-types.md",
+    title: "TypeScript Types",
+    topic: "typescript",
+    oneLiner: "Type definitions",
+    context: "When defining types",
+    examples: "type Foo = { bar: string }",
+  });
+
+  const results = await learnings.list({
+    search: "cleaning up git history",
+    mode: "semantic",
+  });
+  expect(results.map((r) => r.filename)).toEqual(["git-rebase.md"]);
+  expect(results[0]?.score).toBeCloseTo(1);
+
+  // Vectors are stored next to the learnings and dropped on delete
+  const store = join(tempDir, ".cache", "embeddings.json");
+  expect(
+    Object.keys(JSON.parse(await readFile(store, "utf-8")).entries),
+  ).toEqual(["git-rebase.md", "typescript-types.md"]);
+  await learnings.remove("typescript-types.md");
+  expect(
+    Object.keys(JSON.parse(await readFile(store, "utf-8")).entries),
+  ).toEqual(["git-rebase.md"]);
+});
+
+test("semantic search with the default offline provider", async () => {
+  const add = (
+    filename: string,
+    topic: string,
+    title: string,
+    oneLiner: string,
+    examples: string,
+  ) =>
+    learnings.add({ filename, topic, title, oneLiner, context: "", examples });
+  await add(
+    "git-rebase.md",
+    "git",
+    "Interactive rebase",
+    "Squash, reword and reorder commits before merging a feature branch.",
+    "git rebase -i main",
+  );
+  await add(
+    "git-fixup.md",
+    "git",
+    "Fixup commits",
+    "Clean up history by folding small fixes into the commits they fix.",
+    "git commit --fixup <sha> && git rebase -i --autosquash main",
+  );
+  await add(
+    "git-amend.md",
+    "git",
+    "Amend the last commit",
+    "Rewrite the last commit to fix its message, keeping history tidy.",
+    "git commit --amend --no-edit",
+  );
+  await add(
+    "docker-prune.md",
+    "docker",
+    "Prune unused images",
+    "Free disk space by removing dangling images and stopped containers.",
+    "docker system prune -a",
+  );
+  await add(
+    "docker-multistage.md",
+    "docker",
+    "Multi-stage builds",
+    "Keep images small by copying only the build output into a slim image.",
+    "FROM node AS build ... FROM node:slim",
+  );
+  await add(
+    "ts-narrowing.md",
+    "typescript",
+    "Narrow union types",
+    "Use type guards so the compiler knows which variant a value is.",
+    "if (result.kind === 'ok') { ... }",
+  );
+  await add(
+    "ts-satisfies.md",
+    "typescript",
+    "Check literals with satisfies",
+    "satisfies validates an object against a type without widening it.",
+    "const config = { port: 3000 } satisfies Config",
+  );
+
+  // "tidy up history" shares no word with git-rebase.md; it is only related
+  // through the git learnings that mention both
+  const results = await learnings.list({
+    search: "tidy up history",
+    mode: "semantic",
+  });
+  expect(results.map((r) => r.filename).sort()).toEqual([
+    "git-amend.md",
+    "git-fixup.md",
+    "git-rebase.md",
+  ]);
+});
+
+test("the default provider keeps stored vectors current on every write", async () => {
+  const topics = ["git", "docker", "typescript", "testing", "bash", "css"];
+  const add = (name: string, topic: string) =>
+    learnings.add({
+      filename: `${topic}-${name}.md`,
+      title: `${topic} ${name}`,
+      topic,
+      oneLiner: `How to ${name} with ${topic}`,
+      context: `When working with ${topic}`,
+      examples: `${topic} ${name} --help`,
+    });
+  for (const topic of topics) {
+    await add("basics", topic);
+    await add("tips", topic);
+  }
+  const store = join(tempDir, ".cache", "embeddings.json");
+  const read = async () => JSON.parse(await readFile(store, "utf-8"));
+  const before = await read();
+  expect(Object.keys(before.entries)).toHaveLength(12);
+
+  // One more learning is embedded against the current model, without a
+  // search and without refitting
+  await add("debugging", "git");
+  const added = await read();
+  expect(added.version).toBe(before.version);
+  expect(added.entries["git-debugging.md"].vector.length).toBeGreaterThan(0);
+  expect(added.entries["git-basics.md"]).toEqual(
+    before.entries["git-basics.md"],
+  );
+
+  await learnings.remove("git-debugging.md");
+  const removed = await read();
+  expect(removed.version).toBe(before.version);
+  expect(Object.keys(removed.entries)).toHaveLength(12);
+  expect(removed.entries["git-debugging.md"]).toBeUndefined();
+});
+
+test("link graph finds backlinks, dangling links and orphans", async () => {
+  const base = {
+    topic: "git",
+    oneLiner: "One liner",
+    context: "Context",
+  };
+  await learnings.add({
+    ...base,
+    filename: "git-rebase.md",
+    title: "Git Rebase",
+    examples: "Squash first, see [squash](./git-squash.md#how).",
+    related: ["git-merge.md", "git-missing.md"],
+  });
+  await learnings.add({
+    ...base,
+    filename: "git-merge.md",
+    title: "Git Merge",
+    examples: "[docs](https://git-scm.com/docs/git-merge.md)",
+  });
+  await learnings.add({
+    ...base,
+    filename: "git-squash.md",
+    title: "Git Squash",
+    examples: "N/A",
+  });
+  await learnings.add({
+    ...base,
+    filename: "git-bisect.md",
+    title: "Git Bisect",
+    examples: "N/A",
+  });
+
+  expect(await learnings.backlinks("git-merge.md")).toEqual(["git-rebase.md"]);
+  expect(await learnings.backlinks("git-squash.md")).toEqual(["git-rebase.md"]);
+
+  const graph = await learnings.graph();
+  expect(graph.links).toEqual([
+    { from: "git-rebase.md", to: "git-merge.md", source: "related" },
+    { from: "git-rebase.md", to: "git-missing.md", source: "related" },
+    { from: "git-rebase.md", to: "git-squash.md", source: "inline" },
+  ]);
+  expect(danglingLinks(graph).map((l) => l.to)).toEqual(["git-missing.md"]);
+  expect(orphans(graph)).toEqual(["git-bisect.md"]);
+
+  const dot = toDot(graph);
+  expect(dot).toContain('"git-rebase.md" -> "git-squash.md" [style=dotted];');
+  expect(dot).toContain('"git-missing.md" [style=dashed];');
+});
+
+test("the link graph answers from the index", async () => {
+  const base = { topic: "git", oneLiner: "One liner", context: "Context" };
+  await learnings.add({
+    ...base,
+    filename: "git-rebase.md",
+    title: "Git Rebase",
+    examples: "N/A",
+  });
+  await learnings.add({
+    ...base,
+    filename: "git-merge.md",
+    title: "Git Merge",
+    examples: "N/A",
+  });
+  expect(await learnings.backlinks("git-merge.md")).toEqual([]);
+
+  // Tamper with the cached entry of an unchanged file: it must not be re-read
+  const indexPath = join(tempDir, ".cache", "index.json");
+  const index = JSON.parse(await readFile(indexPath, "utf-8"));
+  index.entries["git-rebase.md"].metadata.related = ["git-merge.md"];
+  await writeFile(indexPath, JSON.stringify(index));
+
+  const fresh = new LearningsModule(new FileSystemRepository(tempDir));
+  expect(await fresh.backlinks("git-merge.md")).toEqual(["git-rebase.md"]);
+});
+
+test("rename rewrites related entries and inline links", async () => {
+  const base = { topic: "git", oneLiner: "One liner", context: "Context" };
+  await learnings.add({
+    ...base,
+    filename: "git-rebase.md",
+    title: "Git Rebase",
+    examples: "N/A",
+  });
+  await learnings.add({
+    ...base,
+    filename: "git-squash.md",
+    title: "Git Squash",
+    examples: "Rebase first: [rebase](./git-rebase.md#interactive)",
+    related: ["git-rebase.md"],
+  });
+
+  const result = await learnings.rename("git-rebase.md", "git-rebase-onto");
+  expect(result).toEqual({
+    filename: "git-rebase-onto.md",
+    updated: ["git-squash.md"],
+  });
+
+  const squash = await learnings.get("git-squash.md");
+  expect(squash.metadata.related).toEqual(["git-rebase-onto.md"]);
+  expect(squash.content).toContain(
+    "[rebase](./git-rebase-onto.md#interactive)",
+  );
+  expect(squash.content).toContain(
+    "[git-rebase-onto.md](./git-rebase-onto.md)",
+  );
+  expect(squash.content).not.toContain("git-rebase.md");
+
+  await expect(
+    learnings.rename("git-squash.md", "git-rebase-onto.md"),
+  ).rejects.toThrow("already exists");
+});
+
+test("move a learning to another scope", async () => {
+  const otherDir = await mkdtemp(join(tmpdir(), "learnings-test-"));
+  const other = new LearningsModule(new FileSystemRepository(otherDir));
+  try {
+    await learnings.add({
+      filename: "git-rebase.md",
+      title: "Git Rebase",
+      topic: "git",
+      oneLiner: "One liner",
+      context: "Context",
+      examples: "N/A",
+    });
+
+    const result = await learnings.moveTo(other, "git-rebase.md");
+    expect(result).toEqual({
+      status: "moved",
+      from: "git-rebase.md",
+      filename: "git-rebase.md",
+      merged: false,
+      dangling: [],
+    });
+    expect((await other.get("git-rebase.md")).metadata.title).toBe(
+      "Git Rebase",
+    );
+    expect(await learnings.list({})).toEqual([]);
+    expect((await learnings.listTrash()).map((i) => i.filename)).toEqual([
+      "git-rebase.md",
+    ]);
+  } finally {
+    await rm(otherDir, { recursive: true, force: true });
+  }
+});
+
+test("moving onto an existing filename reports, merges or renames", async () => {
+  const otherDir = await mkdtemp(join(tmpdir(), "learnings-test-"));
+  const global = new LearningsModule(new FileSystemRepository(otherDir));
+  const learning = {
+    filename: "git-rebase.md",
+    title: "Git Rebase",
+    topic: "git",
+    oneLiner: "Replay commits",
+    context: "Before merging",
+    examples: "git rebase main",
+  };
+  try {
+    await global.add({ ...learning, tags: ["git"] });
+    await learnings.add({
+      ...learning,
+      tags: ["history"],
+      examples: "git rebase -i HEAD~3",
+    });
+
+    const conflict = await learnings.moveTo(global, "git-rebase.md");
+    expect(conflict.status).toBe("conflict");
+    if (conflict.status === "conflict") {
+      expect(conflict.diff).toContain("- git rebase main");
+      expect(conflict.diff).toContain("+ git rebase -i HEAD~3");
+    }
+    expect((await learnings.list({})).length).toBe(1);
+
+    const renamed = await learnings.moveTo(
+      global,
+      "git-rebase.md",
+      "git-rebase.md",
+      "rename",
+    );
+    expect(renamed).toMatchObject({ filename: "git-rebase-2.md" });
+
+    await learnings.add({
+      ...learning,
+      tags: ["history"],
+      examples: "git rebase -i HEAD~3",
+    });
+    const merged = await learnings.moveTo(
+      global,
+      "git-rebase.md",
+      "git-rebase.md",
+      "merge",
+    );
+    expect(merged).toMatchObject({ status: "moved", merged: true });
+    const result = await global.get("git-rebase.md");
+    expect(result.metadata.tags).toEqual(["git", "history"]);
+    expect(result.content).toContain("git rebase main\n\ngit rebase -i HEAD~3");
+  } finally {
+    await rm(otherDir, { recursive: true, force: true });
+  }
+});
+
+test("bulk move moves every learning matching a filter", async () => {
+  const otherDir = await mkdtemp(join(tmpdir(), "learnings-test-"));
+  const global = new LearningsModule(new FileSystemRepository(otherDir));
+  try {
+    for (const [filename, topic] of [
+      ["git-rebase.md", "git"],
+      ["git-merge.md", "git"],
+      ["ts-enums.md", "typescript"],
+    ] as const) {
+      await learnings.add({
+        filename,
+        title: filename,
+        topic,
+        oneLiner: "One liner",
+        context: "Context",
+        examples: "N/A",
+      });
+    }
+
+    const results = await learnings.moveAllTo(global, { topic: "git" });
+    expect(results.map((r) => r.filename).sort()).toEqual([
+      "git-merge.md",
+      "git-rebase.md",
+    ]);
+    expect((await global.list({})).length).toBe(2);
+    expect((await learnings.list({})).map((r) => r.filename)).toEqual([
+      "ts-enums.md",
+    ]);
+  } finally {
+    await rm(otherDir, { recursive: true, force: true });
+  }
+});
+
+test("similar learnings are found before adding a duplicate", async () => {
+  await learnings.add({
+    filename: "git-rebase-interactive.md",
+    title: "Interactive rebase to squash commits",
+    topic: "git",
+    tags: ["git", "rebase"],
+    oneLiner: "Use interactive rebase to squash commits before merging",
+    context: "Clean up a feature branch so it lands as one commit",
+    examples: "git rebase -i HEAD~3, then mark commits as squash",
+  });
+  await learnings.add({
+    filename: "ts-enums.md",
+    title: "Prefer union types over enums",
+    topic: "typescript",
+    tags: ["typescript"],
+    oneLiner: "String unions are simpler than enums",
+    context: "Declaring a fixed set of values",
+    examples: "type Mode = 'keyword' | 'semantic'",
+  });
+
+  const draft = learnings.draft({
+    filename: "git-squash.md",
+    title: "Squash commits with interactive rebase",
+    topic: "git",
+    tags: ["git", "squash"],
+    oneLiner: "Use interactive rebase to squash commits before merging",
+    context: "Clean up a feature branch so it lands as one commit",
+    examples: "git rebase -i main",
+  });
+  const similar = await learnings.findSimilar(draft);
+  expect(similar.map((s) => s.learning.filename)).toEqual([
+    "git-rebase-interactive.md",
+  ]);
+
+  const clusters = duplicateClusters(
+    [...(await learnings.all()), draft].map((learning) => ({ learning })),
+  );
+  expect(
+    clusters.map((c) => c.items.map((i) => i.learning.filename).sort()),
+  ).toEqual([["git-rebase-interactive.md", "git-squash.md"]]);
+});
+
+test("lint reports and fixes problems, and malformed files don't break listing", async () => {
+  await learnings.add({
+    filename: "git-rebase.md",
+    title: "Rebase",
+    topic: "git",
+    tags: ["git"],
+    oneLiner: "Rebase onto main",
+    context: "Before merging",
+    examples: "git rebase main",
+  });
+  await writeFile(
+    join(tempDir, "Git_Merge.md"),
+    "---\ntitle: Merge\ntopic: git\ntags: [Git, Merge Commits]\nrelated: [git-rebase.md, gone.md]\ncreated: 2024/3/5\n---\n\nMerge with --no-ff\n\n## Context\n\nKeeping history\n",
+  );
+  await writeFile(join(tempDir, "broken-file.md"), "---\ntitle: [\n---\n");
+
+  expect((await learnings.list({})).map((r) => r.filename).sort()).toEqual([
+    "Git_Merge.md",
+    "git-rebase.md",
+  ]);
+
+  const report = await learnings.lint();
+  const byFile = new Map(report.map((r) => [r.filename, r.diagnostics]));
+  expect(byFile.get("git-rebase.md")).toEqual([]);
+  expect(byFile.get("broken-file.md")?.map((d) => d.rule)).toEqual([
+    "front-matter",
+  ]);
+  expect(
+    byFile
+      .get("Git_Merge.md")
+      ?.map((d) => d.rule)
+      .sort(),
+  ).toEqual([
+    "date",
+    "dead-related",
+    "filename",
+    "sections",
+    "sections",
+    "sections",
+    "tag-case",
+    "tag-case",
+  ]);
+
+  const fixed = await learnings.lint({ fix: true });
+  const merge = fixed.find((r) => r.filename === "git-merge.md");
+  expect(merge?.diagnostics.map((d) => d.message)).toEqual([
+    "Missing '## Examples' section",
+  ]);
+  const learning = await learnings.get("git-merge.md");
+  expect(learning.metadata.tags).toEqual(["git", "merge-commits"]);
+  expect(learning.metadata.related).toEqual(["git-rebase.md"]);
+  expect(learning.metadata.created).toBe("2024-03-05");
+  expect(learning.content).toStartWith("# Merge\n\nMerge with --no-ff");
+  expect(learning.content).toContain("## See Also");
+});
+
+test("topic folders and relative links between folders", async () => {
+  const folders = new LearningsModule(new FileSystemRepository(tempDir), {
+    topicFolders: true,
+  });
+  const base = { oneLiner: "One liner", context: "Context", examples: "N/A" };
+  await folders.add({
+    ...base,
+    filename: "rebase.md",
+    title: "Rebase",
+    topic: "Git",
+  });
+  const { filename } = await folders.add({
+    ...base,
+    filename: "ci/deploy.md",
+    title: "Deploy",
+    topic: "infra",
+    related: ["git/rebase.md"],
+  });
+  expect(filename).toBe("ci/deploy.md");
+  expect((await folders.list({})).map((r) => r.filename).sort()).toEqual([
+    "ci/deploy.md",
+    "git/rebase.md",
+  ]);
+  expect((await folders.get("ci/deploy.md")).content).toContain(
+    "[git/rebase.md](../git/rebase.md)",
+  );
+  expect(await folders.backlinks("git/rebase.md")).toEqual(["ci/deploy.md"]);
+
+  // Moving a learning to another folder keeps its own links working
+  await folders.rename("ci/deploy.md", "infra/deploy.md");
+  expect((await folders.get("infra/deploy.md")).content).toContain(
+    "[git/rebase.md](../git/rebase.md)",
+  );
+  await folders.rename("git/rebase.md", "rebase-basics.md");
+  const deploy = await folders.get("infra/deploy.md");
+  expect(deploy.metadata.related).toEqual(["rebase-basics.md"]);
+  expect(deploy.content).toContain("[rebase-basics.md](../rebase-basics.md)");
+  expect(danglingLinks(await folders.graph())).toEqual([]);
+});
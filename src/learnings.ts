@@ -1,24 +1,204 @@
+import {
+  parseContent,
+  renderContent,
+  renderSeeAlso,
+  type Section,
+  setSection,
+} from "./content.js";
+import { diffLines } from "./diff.js";
+import { checkFilename, slugify, slugifyFilename } from "./filenames.js";
+import { serializeLearning } from "./front-matter.js";
+import {
+  backlinks,
+  buildGraph,
+  type LearningGraph,
+  rewriteLinks,
+} from "./graph.js";
+import {
+  fixedFilename,
+  fixLearning,
+  type LintDiagnostic,
+  lintLearning,
+} from "./lint.js";
 import type {
+  Learning,
   LearningMetadata,
+  ParseError,
   Repository,
+  Revision,
+  SearchOptions,
   SearchResult,
+  SyncResult,
+  TrashedLearning,
 } from "./repository.js";
+import { findSimilar } from "./similarity.js";
+
+/**
+ * Folder for learnings of a topic: the topic in lowercase, with dashes
+ */
+function topicFolder(topic: string): string {
+  return slugify(topic) || "misc";
+}
+
+/**
+ * Today's date in YYYY-MM-DD format
+ */
+function today(): string {
+  return new Date().toISOString().split("T")[0] ?? "";
+}
+
+/**
+ * Fields of a learning to add
+ */
+export interface NewLearning {
+  filename: string;
+  title: string;
+  topic: string;
+  tags?: string[];
+  oneLiner: string;
+  context: string;
+  examples: string;
+  related?: string[];
+}
+
+/**
+ * Lint diagnostics of one learning file
+ */
+export interface LintResult {
+  /** Filename after fixing, which may have renamed it */
+  filename: string;
+  /** Problems left */
+  diagnostics: LintDiagnostic[];
+  /** Messages of the problems that were fixed */
+  fixed: string[];
+}
+
+/**
+ * What to do when a moved learning's filename is taken in the target scope
+ */
+export type ConflictResolution = "fail" | "merge" | "rename";
+
+/**
+ * Outcome of moving one learning between scopes
+ */
+export type MoveResult =
+  | {
+      status: "moved";
+      from: string;
+      filename: string;
+      /** Whether it was merged into a learning with the same filename */
+      merged: boolean;
+      /** Learnings left behind that still link to it */
+      dangling: string[];
+    }
+  | {
+      status: "conflict";
+      from: string;
+      filename: string;
+      /** Diff from the existing learning to the one being moved */
+      diff: string;
+    };
+
+/**
+ * Run `fn` as one change of the repository, if it supports batching
+ */
+function inBatch<T>(
+  repository: Repository,
+  message: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return repository.batch ? repository.batch(message, fn) : fn();
+}
+
+/**
+ * First `<name>-<n>.md` filename not in `taken`
+ */
+function freeFilename(filename: string, taken: string[]): string {
+  const base = filename.replace(/\.md$/, "");
+  for (let n = 2; ; n++) {
+    const candidate = `${base}-${n}.md`;
+    if (!taken.includes(candidate)) return candidate;
+  }
+}
+
+/**
+ * Fold an incoming learning into an existing one with the same filename.
+ *
+ * The existing title, topic and one-liner win. Tags and related are
+ * combined, and sections only the incoming learning has are appended. A
+ * section both have with different text keeps both texts.
+ */
+function combineLearnings(
+  existing: Learning,
+  incoming: Learning,
+): { metadata: LearningMetadata; content: string } {
+  const related = [
+    ...new Set([...existing.metadata.related, ...incoming.metadata.related]),
+  ];
+  const metadata: LearningMetadata = {
+    ...existing.metadata,
+    tags: [...new Set([...existing.metadata.tags, ...incoming.metadata.tags])],
+    created:
+      incoming.metadata.created < existing.metadata.created
+        ? incoming.metadata.created
+        : existing.metadata.created,
+    updated: today(),
+    related,
+  };
+
+  const ours = parseContent(existing.content);
+  const theirs = parseContent(incoming.content);
+  const sections = ours.sections.filter((s) => s.heading !== "See Also");
+  for (const section of theirs.sections) {
+    if (section.heading === "See Also") continue;
+    const same = sections.find((s) => s.heading === section.heading);
+    if (!same) {
+      sections.push(section);
+    } else if (!same.body.includes(section.body)) {
+      same.body = section.body.includes(same.body)
+        ? section.body
+        : `${same.body}\n\n${section.body}`;
+    }
+  }
+  if (related.length > 0) {
+    sections.push({
+      heading: "See Also",
+      body: renderSeeAlso(related, existing.filename),
+    });
+  }
+
+  return {
+    metadata,
+    content: renderContent(
+      metadata.title,
+      ours.oneLiner || theirs.oneLiner,
+      sections,
+    ),
+  };
+}
+
+export interface LearningsModuleOptions {
+  /**
+   * Put new learnings in a folder named after their topic (e.g.
+   * `git/rebase.md`), unless the filename already has a folder
+   */
+  topicFolders?: boolean;
+}
 
 /**
  * Learnings module - business logic layer
  * Accepts a Repository implementation via dependency injection
  */
 export class LearningsModule {
-  constructor(private readonly repository: Repository) {}
+  constructor(
+    private readonly repository: Repository,
+    private readonly options: LearningsModuleOptions = {},
+  ) {}
 
   /**
    * List learnings with optional filtering
    */
-  async list(options: {
-    topic?: string;
-    tags?: string[];
-    search?: string;
-  }): Promise<SearchResult[]> {
+  async list(options: SearchOptions): Promise<SearchResult[]> {
     return this.repository.search(options);
   }
 
@@ -32,72 +212,498 @@ export class LearningsModule {
   /**
    * Add a new learning
    */
-  async add(params: {
-    filename: string;
-    title: string;
-    topic: string;
-    tags?: string[];
-    oneLiner: string;
-    context: string;
-    examples: string;
-    related?: string[];
-  }) {
-    // Ensure filename ends with .md
-    const normalizedFilename = params.filename.endsWith(".md")
-      ? params.filename
-      : `${params.filename}.md`;
+  async add(params: NewLearning) {
+    const { filename, metadata, content } = this.draft(params);
+
+    await this.repository.write(filename, metadata, content);
+
+    return { filename };
+  }
+
+  /**
+   * The learning `add` would write, without writing it
+   */
+  draft(params: NewLearning): Learning {
+    let normalizedFilename = slugifyFilename(params.filename);
+    if (this.options.topicFolders && !normalizedFilename.includes("/")) {
+      normalizedFilename = checkFilename(
+        `${topicFolder(params.topic)}/${normalizedFilename}`,
+      );
+    }
 
     const metadata: LearningMetadata = {
       title: params.title,
       topic: params.topic,
       tags: params.tags || [],
-      created: new Date().toISOString().split("T")[0] ?? "", // YYYY-MM-DD
+      created: today(),
       related: params.related || [],
     };
 
-    const content = `# ${params.title}
+    const sections: Section[] = [
+      { heading: "Context", body: params.context },
+      { heading: "Examples", body: params.examples },
+    ];
+    if (metadata.related.length > 0) {
+      sections.push({
+        heading: "See Also",
+        body: renderSeeAlso(metadata.related, normalizedFilename),
+      });
+    }
+
+    const content = renderContent(params.title, params.oneLiner, sections);
+
+    return { filename: normalizedFilename, metadata, content };
+  }
+
+  /**
+   * Existing learnings similar enough to be duplicates of `learning`, most
+   * similar first
+   */
+  async findSimilar(
+    learning: Learning,
+    threshold?: number,
+  ): Promise<{ learning: Learning; score: number }[]> {
+    return findSimilar(learning, await this.all(), threshold);
+  }
+
+  /**
+   * Update an existing learning, changing only the given fields
+   */
+  async update(
+    filename: string,
+    changes: {
+      title?: string;
+      topic?: string;
+      tags?: string[];
+      oneLiner?: string;
+      context?: string;
+      examples?: string;
+      related?: string[];
+    },
+  ) {
+    const learning = await this.repository.read(filename);
+    const parsed = parseContent(learning.content);
+    let sections = parsed.sections;
+
+    const metadata: LearningMetadata = {
+      ...learning.metadata,
+      title: changes.title ?? learning.metadata.title,
+      topic: changes.topic ?? learning.metadata.topic,
+      tags: changes.tags ?? learning.metadata.tags,
+      related: changes.related ?? learning.metadata.related,
+      updated: today(),
+    };
+
+    if (changes.context !== undefined) {
+      setSection(sections, "Context", changes.context);
+    }
+    if (changes.examples !== undefined) {
+      setSection(sections, "Examples", changes.examples);
+    }
+    if (changes.related !== undefined) {
+      sections = sections.filter((s) => s.heading !== "See Also");
+      if (changes.related.length > 0) {
+        sections.push({
+          heading: "See Also",
+          body: renderSeeAlso(changes.related, filename),
+        });
+      }
+    }
+
+    const content = renderContent(
+      metadata.title,
+      changes.oneLiner ?? parsed.oneLiner,
+      sections,
+    );
+
+    await this.repository.write(filename, metadata, content);
+
+    return { filename };
+  }
+
+  /**
+   * Rename a learning and rewrite every reference to it, in `related` and in
+   * inline links, as one change. Returns the learnings whose references
+   * were rewritten.
+   */
+  async rename(
+    from: string,
+    to: string,
+  ): Promise<{ filename: string; updated: string[] }> {
+    const filename = slugifyFilename(to);
+    await this.repository.read(from);
+    if (filename === from) {
+      throw new Error(`${from} already has that name`);
+    }
+    if ((await this.repository.listFiles()).includes(filename)) {
+      throw new Error(`A learning named ${filename} already exists`);
+    }
+
+    const referencing = await Promise.all(
+      (await this.backlinks(from)).map((f) => this.repository.read(f)),
+    );
+
+    const run = async () => {
+      await this.repository.rename(from, filename);
+      for (const learning of referencing) {
+        const metadata: LearningMetadata = {
+          ...learning.metadata,
+          related: learning.metadata.related.map((r) =>
+            r === from ? filename : r,
+          ),
+        };
+        const content = rewriteLinks(
+          learning.content,
+          learning.filename,
+          from,
+          filename,
+        );
+        await this.repository.write(learning.filename, metadata, content);
+      }
+
+      // Relative links of a learning moved to another folder
+      const moved = await this.repository.read(filename);
+      const content = rewriteLinks(
+        moved.content,
+        from,
+        from,
+        filename,
+        filename,
+      );
+      if (content !== moved.content) {
+        await this.repository.write(filename, moved.metadata, content);
+      }
+    };
+    await inBatch(
+      this.repository,
+      `Rename learning: ${from} → ${filename}`,
+      run,
+    );
+
+    return { filename, updated: referencing.map((l) => l.filename) };
+  }
+
+  /**
+   * Move a learning to another scope's repository, optionally renaming it.
+   * The original goes to this repository's trash.
+   *
+   * If the target already has a learning with that filename, `onConflict`
+   * decides: "fail" leaves both untouched and reports their diff, "merge"
+   * folds this learning into the existing one, and "rename" moves it under
+   * the next free filename.
+   */
+  async moveTo(
+    target: LearningsModule,
+    from: string,
+    to: string = from,
+    onConflict: ConflictResolution = "fail",
+  ): Promise<MoveResult> {
+    const learning = await this.repository.read(from);
+    const targetFiles = await target.repository.listFiles();
+    // Keep the name as is unless a new one is given
+    let filename = to === from ? checkFilename(from) : slugifyFilename(to);
+    let merged = false;
+    let changes: { metadata: LearningMetadata; content: string } | undefined =
+      learning;
+
+    if (targetFiles.includes(filename)) {
+      const existing = await target.repository.read(filename);
+      const diff = diffLines(
+        serializeLearning(existing.metadata, existing.content),
+        serializeLearning(learning.metadata, learning.content),
+      );
+
+      if (!diff) {
+        // Already there as is
+        changes = undefined;
+        merged = true;
+      } else if (onConflict === "fail") {
+        return { status: "conflict", from, filename, diff };
+      } else if (onConflict === "rename") {
+        filename = freeFilename(filename, targetFiles);
+      } else {
+        changes = combineLearnings(existing, learning);
+        merged = true;
+      }
+    }
+
+    if (changes) {
+      await target.repository.write(
+        filename,
+        changes.metadata,
+        changes.content,
+      );
+    }
+    await this.repository.delete(from);
+
+    return {
+      status: "moved",
+      from,
+      filename,
+      merged,
+      dangling: await this.backlinks(from),
+    };
+  }
+
+  /**
+   * Move every learning matching a filter to another scope's repository,
+   * as one change on each side. Conflicts are handled per learning as in
+   * `moveTo`.
+   */
+  async moveAllTo(
+    target: LearningsModule,
+    filter: SearchOptions,
+    onConflict: ConflictResolution = "fail",
+  ): Promise<MoveResult[]> {
+    const matches = await this.list(filter);
+    if (matches.length === 0) {
+      return [];
+    }
 
-${params.oneLiner}
+    const message = `Move ${matches.length} learnings between scopes`;
+    return inBatch(target.repository, message, () =>
+      inBatch(this.repository, message, async () => {
+        const results: MoveResult[] = [];
+        for (const match of matches) {
+          results.push(
+            await this.moveTo(
+              target,
+              match.filename,
+              match.filename,
+              onConflict,
+            ),
+          );
+        }
+        return results;
+      }),
+    );
+  }
 
-## Context
+  /**
+   * Check every learning against the learning guidelines. With `fix`,
+   * fixable problems are fixed in one change, including renaming files
+   * that don't follow the filename convention.
+   */
+  async lint(options: { fix?: boolean } = {}): Promise<LintResult[]> {
+    const filenames = await this.repository.listFiles();
+    const existing = new Set(filenames);
 
-${params.context}
+    const run = async () => {
+      const results: LintResult[] = [];
+      for (const filename of filenames) {
+        let learning: Learning;
+        try {
+          learning = await this.repository.read(filename);
+        } catch (error) {
+          results.push({
+            filename,
+            diagnostics: [
+              {
+                rule: "front-matter",
+                severity: "error",
+                message: error instanceof Error ? error.message : String(error),
+                fixable: false,
+              },
+            ],
+            fixed: [],
+          });
+          continue;
+        }
 
-## Examples
+        const diagnostics = lintLearning(learning, existing);
+        if (!options.fix || !diagnostics.some((d) => d.fixable)) {
+          results.push({ filename, diagnostics, fixed: [] });
+          continue;
+        }
 
-${params.examples}${
-  params.related && params.related.length > 0
-    ? `\n\n## See Also\n\n${params.related.map((r) => `- [${r}](./${r})`).join("\n")}`
-    : ""
-}`;
+        const { metadata, content } = fixLearning(learning, existing);
+        await this.repository.write(filename, metadata, content);
+        let current = filename;
+        const conventional = fixedFilename(filename);
+        if (conventional && !existing.has(conventional)) {
+          await this.rename(filename, conventional);
+          existing.delete(filename);
+          existing.add(conventional);
+          current = conventional;
+        }
 
-    await this.repository.write(normalizedFilename, metadata, content);
+        const remaining = lintLearning(
+          { filename: current, metadata, content },
+          existing,
+        );
+        results.push({
+          filename: current,
+          diagnostics: remaining,
+          fixed: diagnostics
+            .filter((d) => !remaining.some((r) => r.message === d.message))
+            .map((d) => d.message),
+        });
+      }
+      return results;
+    };
 
-    return { filename: normalizedFilename };
+    return options.fix
+      ? inBatch(this.repository, "Fix learnings reported by lint", run)
+      : run();
   }
 
   /**
-   * Remove a learning by filename
+   * Remove a learning by filename, moving it to the trash
    */
   async remove(filename: string) {
     await this.repository.delete(filename);
   }
 
+  /**
+   * Deleted learnings in the trash, most recently deleted first
+   */
+  async listTrash(): Promise<TrashedLearning[]> {
+    return this.repository.listTrash();
+  }
+
+  /**
+   * Restore a deleted learning from the trash, returning its filename
+   */
+  async restoreFromTrash(id: string): Promise<string> {
+    return this.repository.restoreFromTrash(id);
+  }
+
+  /**
+   * Permanently delete a trashed learning, or the whole trash
+   */
+  async purgeTrash(id?: string): Promise<TrashedLearning[]> {
+    return this.repository.purgeTrash(id);
+  }
+
+  /**
+   * Whether the repository can sync with a remote
+   */
+  get canSync(): boolean {
+    return this.repository.sync !== undefined;
+  }
+
+  /**
+   * Pull learnings from the remote and report what arrived
+   */
+  async sync(): Promise<SyncResult> {
+    if (!this.repository.sync) {
+      throw new Error("Repository is not a git repository, nothing to sync");
+    }
+    return this.repository.sync();
+  }
+
+  /**
+   * Whether the repository commits changes to version control
+   */
+  get canCommit(): boolean {
+    return this.repository.commit !== undefined;
+  }
+
+  /**
+   * Commit and push pending changes, returning the committed filenames
+   */
+  async commit(): Promise<string[]> {
+    if (!this.repository.commit) {
+      throw new Error("Repository is not a git repository, nothing to commit");
+    }
+    return this.repository.commit();
+  }
+
+  /**
+   * Commit changes waiting for a batched commit now, before exiting
+   */
+  async flush(): Promise<void> {
+    await this.repository.flush?.();
+  }
+
+  /**
+   * Whether the repository keeps the history of each learning
+   */
+  get hasHistory(): boolean {
+    return this.repository.history !== undefined;
+  }
+
+  /**
+   * Revisions of a learning, newest first
+   */
+  async history(filename: string): Promise<Revision[]> {
+    if (!this.repository.history) {
+      throw new Error("Repository is not a git repository, no history");
+    }
+    return this.repository.history(filename);
+  }
+
+  /**
+   * Diff a learning between two revisions, or a revision and the current file
+   */
+  async diff(filename: string, from: string, to?: string): Promise<string> {
+    if (!this.repository.diff) {
+      throw new Error("Repository is not a git repository, no history");
+    }
+    return this.repository.diff(filename, from, to);
+  }
+
+  /**
+   * Restore a learning to a previous revision as a new commit
+   */
+  async restore(filename: string, revision: string): Promise<void> {
+    if (!this.repository.restore) {
+      throw new Error("Repository is not a git repository, no history");
+    }
+    return this.repository.restore(filename, revision);
+  }
+
+  /**
+   * Link graph of all learnings, from `related` and inline links
+   */
+  async graph(): Promise<LearningGraph> {
+    return buildGraph(await this.all());
+  }
+
+  /**
+   * Every learning with its content, from the repository's index.
+   * Unreadable learnings are left out.
+   */
+  async all(): Promise<Learning[]> {
+    return this.repository.listLearnings();
+  }
+
+  /**
+   * Filenames of learnings that link to the given one
+   */
+  async backlinks(filename: string): Promise<string[]> {
+    return backlinks(await this.graph(), filename);
+  }
+
+  /**
+   * Learning files that could not be parsed and are left out of listings
+   */
+  async parseErrors(): Promise<ParseError[]> {
+    return this.repository.parseErrors();
+  }
+
+  /**
+   * Rebuild the README.md index of the learnings folder, returning whether
+   * it changed
+   */
+  async updateIndex(): Promise<boolean> {
+    return this.repository.updateIndex();
+  }
+
   /**
    * Get all unique topics and tags from all learnings, sorted by usage count
    */
   async getMetadata(): Promise<{ topics: string[]; tags: string[] }> {
-    const files = await this.repository.listFiles();
+    const learnings = await this.repository.search({});
     const topicCounts = new Map<string, number>();
     const tagCounts = new Map<string, number>();
 
-    for (const filename of files) {
-      const learning = await this.repository.read(filename);
+    for (const learning of learnings) {
       topicCounts.set(
-        learning.metadata.topic,
-        (topicCounts.get(learning.metadata.topic) || 0) + 1,
+        learning.topic,
+        (topicCounts.get(learning.topic) || 0) + 1,
       );
-      learning.metadata.tags.forEach((tag) => {
+      learning.tags.forEach((tag) => {
         tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
       });
     }
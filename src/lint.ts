@@ -0,0 +1,222 @@
+import {
+  parseContent,
+  renderContent,
+  renderSeeAlso,
+  setSection,
+} from "./content.js";
+import { slugifyFilename } from "./filenames.js";
+import type { Learning, LearningMetadata } from "./repository.js";
+
+/**
+ * A problem found in one learning
+ */
+export interface LintDiagnostic {
+  /** Which rule found it, e.g. "date" */
+  rule: string;
+  severity: "error" | "warning";
+  message: string;
+  /** Whether `fixLearning` can fix it */
+  fixable: boolean;
+}
+
+/** `{context}-{short-title}.md`: lowercase words joined by dashes */
+const FILENAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)+\.md$/;
+/** Folder names, and filenames inside a folder, which gives the context */
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const REQUIRED_SECTIONS = ["Context", "Examples"];
+
+/**
+ * Whether a filename follows the convention: `{context}-{short-title}.md`
+ * at the top level, `{folder}/{short-title}.md` in folders
+ */
+function followsConvention(filename: string): boolean {
+  const folders = filename.split("/");
+  const name = folders.pop() ?? "";
+  if (folders.length === 0) {
+    return FILENAME_PATTERN.test(name);
+  }
+  return (
+    folders.every((folder) => SLUG_PATTERN.test(folder)) &&
+    name.endsWith(".md") &&
+    SLUG_PATTERN.test(name.slice(0, -3))
+  );
+}
+
+/**
+ * YYYY-MM-DD form of a date written some other way, if it can be read
+ */
+function normalizeDate(value: string): string | undefined {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Whether a value is a YYYY-MM-DD date that exists in the calendar
+ */
+function isValidDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year ?? 0, (month ?? 0) - 1, day));
+  return date.getUTCMonth() === (month ?? 0) - 1 && date.getUTCDate() === day;
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Check a learning against the structure described in the learning
+ * guidelines. `filenames` are the learnings that exist next to it, to find
+ * dead related links.
+ */
+export function lintLearning(
+  learning: Learning,
+  filenames: Set<string>,
+): LintDiagnostic[] {
+  const { filename, metadata, content } = learning;
+  const diagnostics: LintDiagnostic[] = [];
+  const report = (
+    rule: string,
+    severity: LintDiagnostic["severity"],
+    message: string,
+    fixable: boolean,
+  ) => diagnostics.push({ rule, severity, message, fixable });
+
+  if (!followsConvention(filename)) {
+    const suggestion = fixedFilename(filename);
+    report(
+      "filename",
+      "warning",
+      `Filename should look like {context}-{short-title}.md${suggestion ? ` (e.g. ${suggestion})` : ""}`,
+      suggestion !== undefined,
+    );
+  }
+
+  for (const key of ["created", "updated"] as const) {
+    const value = metadata[key];
+    if (value !== undefined && !isValidDate(value)) {
+      report(
+        "date",
+        "error",
+        `'${key}' should be a YYYY-MM-DD date, got '${value}'`,
+        normalizeDate(value) !== undefined,
+      );
+    }
+  }
+
+  for (const tag of metadata.tags) {
+    if (tag !== normalizeTag(tag)) {
+      report(
+        "tag-case",
+        "warning",
+        `Tag '${tag}' should be lowercase with dashes ('${normalizeTag(tag)}')`,
+        true,
+      );
+    }
+  }
+
+  for (const related of metadata.related) {
+    if (!filenames.has(related)) {
+      report(
+        "dead-related",
+        "error",
+        `Related learning '${related}' does not exist`,
+        true,
+      );
+    }
+  }
+
+  const { oneLiner, sections } = parseContent(content);
+  const headings = new Set(sections.map((s) => s.heading));
+  if (!content.startsWith("# ")) {
+    report("sections", "warning", "Missing '# Title' heading", true);
+  }
+  if (!oneLiner) {
+    report("sections", "warning", "Missing one-line description", false);
+  }
+  for (const heading of REQUIRED_SECTIONS) {
+    if (!headings.has(heading)) {
+      report("sections", "warning", `Missing '## ${heading}' section`, false);
+    }
+  }
+  if (metadata.related.length > 0 && !headings.has("See Also")) {
+    report(
+      "sections",
+      "warning",
+      "Has related learnings but no '## See Also' section",
+      true,
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Fix what `lintLearning` reports as fixable, except the filename: renaming
+ * has to rewrite references, see `fixedFilename`. Dead related links are
+ * dropped.
+ */
+export function fixLearning(
+  learning: Learning,
+  filenames: Set<string>,
+): { metadata: LearningMetadata; content: string } {
+  const { metadata: original, content: originalContent } = learning;
+
+  const related = original.related.filter((r) => filenames.has(r));
+  const metadata: LearningMetadata = {
+    ...original,
+    tags: [...new Set(original.tags.map(normalizeTag))],
+    related,
+  };
+  for (const key of ["created", "updated"] as const) {
+    const value = metadata[key];
+    if (value !== undefined && !isValidDate(value)) {
+      const fixed = normalizeDate(value);
+      if (fixed) metadata[key] = fixed;
+    }
+  }
+
+  let content = originalContent;
+  const relatedChanged = related.length !== original.related.length;
+  const { oneLiner, sections } = parseContent(content);
+  const hasSeeAlso = sections.some((s) => s.heading === "See Also");
+  if (
+    !content.startsWith("# ") ||
+    relatedChanged ||
+    (related.length > 0 && !hasSeeAlso)
+  ) {
+    if (related.length > 0) {
+      setSection(
+        sections,
+        "See Also",
+        renderSeeAlso(related, learning.filename),
+      );
+    }
+    content = renderContent(
+      metadata.title,
+      oneLiner,
+      related.length > 0
+        ? sections
+        : sections.filter((s) => s.heading !== "See Also"),
+    );
+  }
+
+  return { metadata, content };
+}
+
+/**
+ * The conventional filename for a learning, if its current one is off
+ * and can be fixed
+ */
+export function fixedFilename(filename: string): string | undefined {
+  if (followsConvention(filename)) return undefined;
+  try {
+    const suggestion = slugifyFilename(filename);
+    return followsConvention(suggestion) ? suggestion : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { withFileLock } from "./lock.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let tempDir: string;
+let lockPath: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "learnings-lock-test-"));
+  lockPath = join(tempDir, "learnings.lock");
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+test("a slow holder keeps its lock past the stale age", async () => {
+  const staleMs = 200;
+  const events: string[] = [];
+
+  const slow = withFileLock(
+    lockPath,
+    async () => {
+      events.push("slow start");
+      await sleep(staleMs * 3);
+      events.push("slow end");
+    },
+    staleMs,
+  );
+  await sleep(20);
+  const waiting = withFileLock(
+    lockPath,
+    async () => {
+      events.push("second");
+    },
+    staleMs,
+  );
+
+  await Promise.all([slow, waiting]);
+  expect(events).toEqual(["slow start", "slow end", "second"]);
+});
+
+test("a lock left over by a crashed process is taken over", async () => {
+  await mkdir(lockPath);
+  const old = new Date(Date.now() - 1_000);
+  await utimes(lockPath, old, old);
+
+  expect(await withFileLock(lockPath, async () => "ran", 200)).toBe("ran");
+});
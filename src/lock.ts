@@ -0,0 +1,79 @@
+import { mkdir, rm, stat, utimes } from "node:fs/promises";
+
+/** Give up acquiring a lock after this long */
+const LOCK_TIMEOUT_MS = 30_000;
+/**
+ * A lock not refreshed for this long is assumed to be left over by a
+ * crashed process. Holders refresh it several times within this period.
+ */
+const LOCK_STALE_MS = 120_000;
+const RETRY_DELAY_MS = 50;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run async operations one at a time within this process
+ */
+export class Mutex {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(fn);
+    this.tail = result.catch(() => {});
+    return result;
+  }
+}
+
+/**
+ * Run `fn` while holding a lock shared with other processes.
+ *
+ * The lock is a directory, since creating one is atomic on every platform.
+ * Its mtime is refreshed while `fn` runs, so a slow holder (a push retried
+ * after network timeouts) is never mistaken for a crashed one.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  staleMs = LOCK_STALE_MS,
+): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      await mkdir(lockPath);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+
+      const age = await stat(lockPath).then(
+        (s) => Date.now() - s.mtimeMs,
+        () => 0,
+      );
+      if (age > staleMs) {
+        await rm(lockPath, { recursive: true, force: true });
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(
+          `Timed out waiting for lock ${lockPath}. If no other learnings process is running, delete it and retry.`,
+        );
+      }
+      await sleep(RETRY_DELAY_MS);
+    }
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    utimes(lockPath, now, now).catch(() => {});
+  }, staleMs / 4);
+  heartbeat.unref();
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    await rm(lockPath, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,288 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let tempDir: string;
+let client: Client;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "learnings-mcp-test-"));
+  await mkdir(join(tempDir, "project", "learnings"), { recursive: true });
+  await mkdir(join(tempDir, "team", "learnings"), { recursive: true });
+});
+
+/**
+ * Start the server over stdio with the given repositories (a "team" one by
+ * default) and a local folder
+ */
+async function start(...repositories: string[]) {
+  if (repositories.length === 0) {
+    repositories.push(`team=${join(tempDir, "team")}`);
+  }
+  client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(
+    new StdioClientTransport({
+      command: process.execPath,
+      args: [
+        join(import.meta.dir, "mcp-server.ts"),
+        ...repositories.flatMap((spec) => ["--repository", spec]),
+        "--default-scope",
+        "team",
+      ],
+      cwd: join(tempDir, "project"),
+      env: {
+        PATH: process.env.PATH ?? "",
+        HOME: tempDir,
+        XDG_CONFIG_HOME: join(tempDir, "config"),
+      },
+      stderr: "pipe",
+    }),
+  );
+}
+
+afterEach(async () => {
+  await client.close();
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * Add a learning through the add_learning tool
+ */
+async function add(filename: string, scope: string, topic = "git") {
+  const result = await client.callTool({
+    name: "add_learning",
+    arguments: {
+      filename,
+      title: `Title of ${filename}`,
+      topic,
+      oneLiner: `What ${filename} is about`,
+      context: "When it matters",
+      examples: "N/A",
+      scope,
+      force: true,
+    },
+  });
+  expect(JSON.stringify(result.content)).toContain("Successfully created");
+}
+
+test("learnings are resources of their scope", async () => {
+  await start();
+  await add("git-rebase.md", "team");
+  await add("local-notes.md", "local", "notes");
+
+  const { resources } = await client.listResources();
+  expect(resources.map((r) => r.uri).sort()).toEqual([
+    "learning://index/tags",
+    "learning://index/topics",
+    "learning://local/local-notes.md",
+    "learning://team/git-rebase.md",
+  ]);
+
+  const { contents } = await client.readResource({
+    uri: "learning://team/git-rebase.md",
+  });
+  expect(contents[0]?.mimeType).toBe("text/markdown");
+  expect(contents[0]?.text).toStartWith("# Title of git-rebase.md");
+  expect(contents[0]?.text).toContain("**Scope**: Team");
+
+  const local = await client.readResource({
+    uri: "learning://local/local-notes.md",
+  });
+  expect(local.contents[0]?.text).toContain("**Scope**: Local");
+
+  const topics = await client.readResource({
+    uri: "learning://index/topics",
+  });
+  expect(topics.contents[0]?.text).toContain("[git](learning://topic/git)");
+});
+
+test("resource filenames and topics complete", async () => {
+  await start();
+  await add("git-rebase.md", "team");
+  await add("git-reflog.md", "team");
+  await add("docker-prune.md", "team", "docker");
+
+  const filenames = await client.complete({
+    ref: { type: "ref/resource", uri: "learning://team/{filename}" },
+    argument: { name: "filename", value: "git-re" },
+  });
+  expect(filenames.completion.values.sort()).toEqual([
+    "git-rebase.md",
+    "git-reflog.md",
+  ]);
+
+  const topics = await client.complete({
+    ref: { type: "ref/resource", uri: "learning://topic/{topic}" },
+    argument: { name: "topic", value: "do" },
+  });
+  expect(topics.completion.values).toEqual(["docker"]);
+});
+
+test("changes notify subscribers once per burst", async () => {
+  await start();
+  await add("git-rebase.md", "team");
+  await add("git-merge.md", "team");
+  await sleep(300);
+
+  const updated: string[] = [];
+  let listChanged = 0;
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+    updated.push(n.params.uri);
+  });
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+    listChanged++;
+  });
+  await client.subscribeResource({ uri: "learning://team/git-rebase.md" });
+  await client.subscribeResource({ uri: "learning://index/topics" });
+
+  // A tool write and the watcher event it causes make one round
+  await client.callTool({
+    name: "update_learning",
+    arguments: {
+      filename: "git-rebase.md",
+      scope: "team",
+      title: "Interactive rebase",
+    },
+  });
+  await sleep(400);
+  expect(listChanged).toBe(1);
+  expect(updated.sort()).toEqual([
+    "learning://index/topics",
+    "learning://team/git-rebase.md",
+  ]);
+
+  // An edit made outside the server reaches subscribers too; unsubscribed
+  // learnings only change the list
+  updated.length = 0;
+  const path = join(tempDir, "team", "learnings", "git-rebase.md");
+  await writeFile(
+    path,
+    (await readFile(path, "utf-8")).replace("N/A", "git rebase -i"),
+  );
+  await writeFile(
+    join(tempDir, "team", "learnings", "git-merge.md"),
+    "---\ntitle: Merge\ntopic: git\ncreated: 2025-10-03\n---\n\nBody",
+  );
+  await sleep(400);
+  expect(listChanged).toBe(2);
+  expect(updated.sort()).toEqual([
+    "learning://index/topics",
+    "learning://team/git-rebase.md",
+  ]);
+});
+
+test("a failing pull neither stops nor blocks the server", async () => {
+  // A clone whose remote is gone
+  const repository = join(tempDir, "clone");
+  await mkdir(join(repository, "learnings"), { recursive: true });
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: repository, stdio: "pipe" });
+  git("init", "-q", "-b", "main");
+  git("config", "user.name", "alice");
+  git("config", "user.email", "alice@example.com");
+  git("remote", "add", "origin", join(tempDir, "missing.git"));
+  git("commit", "-q", "--allow-empty", "-m", "init");
+  git("config", "branch.main.remote", "origin");
+  git("config", "branch.main.merge", "refs/heads/main");
+  git("update-ref", "refs/remotes/origin/main", "HEAD");
+
+  await writeFile(
+    join(repository, "learnings", "git-rebase.md"),
+    "---\ntitle: Rebase\ntopic: git\ncreated: 2025-10-03\n---\n\nBody",
+  );
+
+  await start(`team=${repository}`);
+
+  const result = await client.callTool({
+    name: "sync_learnings",
+    arguments: {},
+  });
+  expect(result.isError).toBe(true);
+  expect(JSON.stringify(result.content)).toContain("missing.git");
+  const { resources } = await client.listResources();
+  expect(resources.map((r) => r.uri)).toContain(
+    "learning://team/git-rebase.md",
+  );
+});
+
+test("read-only scopes refuse writes through the tools", async () => {
+  const org = join(tempDir, "org");
+  const path = join(org, "learnings", "git-rebase.md");
+  await mkdir(join(org, "learnings"), { recursive: true });
+  const markdown =
+    "---\ntitle: Rebase\ntopic: git\ncreated: 2025-10-03\n---\n\nBody";
+  await writeFile(path, markdown);
+  await start(
+    `org=${org},read-only,priority=10`,
+    `team=${join(tempDir, "team")}`,
+  );
+
+  for (const [name, args] of [
+    [
+      "add_learning",
+      {
+        filename: "git-merge.md",
+        title: "Merge",
+        topic: "git",
+        oneLiner: "Merge branches",
+        context: "When merging",
+        examples: "N/A",
+        scope: "org",
+        force: true,
+      },
+    ],
+    [
+      "update_learning",
+      { filename: "git-rebase.md", scope: "org", title: "X" },
+    ],
+    ["remove_learning", { filename: "git-rebase.md", scope: "org" }],
+  ] as const) {
+    const result = await client.callTool({ name, arguments: args });
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain("are read-only");
+  }
+  expect(await readFile(path, "utf-8")).toBe(markdown);
+
+  // Reading is still allowed
+  const read = await client.callTool({
+    name: "get_learning",
+    arguments: { filename: "git-rebase.md" },
+  });
+  expect(JSON.stringify(read.content)).toContain("Body");
+});
+
+test("fixing all scopes only checks read-only ones", async () => {
+  const org = join(tempDir, "org");
+  await mkdir(join(org, "learnings"), { recursive: true });
+  const markdown =
+    "---\ntitle: Rebase\ntopic: git\ntags: [Git]\ncreated: 2025-10-03\n---\n\n# Rebase\n\nBody";
+  const orgPath = join(org, "learnings", "git-rebase.md");
+  await writeFile(orgPath, markdown);
+  await writeFile(join(tempDir, "team", "learnings", "git-merge.md"), markdown);
+  await start(`org=${org},read-only`, `team=${join(tempDir, "team")}`);
+
+  const result = await client.callTool({
+    name: "validate_learnings",
+    arguments: { fix: true },
+  });
+  expect(result.isError).toBeUndefined();
+  const text = JSON.stringify(result.content);
+  expect(text).toContain(
+    "**Org learnings**: 1 checked, 1 with problems (read-only, not fixed)",
+  );
+  expect(text).toContain("- fixed: ");
+  expect(await readFile(orgPath, "utf-8")).toBe(markdown);
+  expect(
+    await readFile(join(tempDir, "team", "learnings", "git-merge.md"), "utf-8"),
+  ).not.toBe(markdown);
+});
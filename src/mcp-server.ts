@@ -1,422 +1,1672 @@
 #!/usr/bin/env bun
-import { join } from "node:path";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { resolve } from "node:path";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { program } from "commander";
 import { z } from "zod";
-import { loadConfig } from "./config.js";
-import { FileSystemRepository } from "./FileSystemRepository.js";
-import { GitHubRepository } from "./GitHubRepository.js";
-import { LearningsModule } from "./learnings.js";
+import { loadRepositories } from "./config.js";
+import { checkFilename, FilenameError } from "./filenames.js";
+import { danglingLinks, orphans } from "./graph.js";
+import { parsePort, serveHttp } from "./http-server.js";
+import { LearningsSync } from "./LearningsSync.js";
+import { LearningsWatcher } from "./LearningsWatcher.js";
+import type { LintResult, MoveResult } from "./learnings.js";
 import { LEARNING_GUIDELINES, LEARNING_TEMPLATE } from "./prompts.js";
+import type { Learning, ParseError, SearchResult } from "./repository.js";
+import {
+  defaultScope,
+  findScope,
+  flushScopes,
+  openLocal,
+  openRepositories,
+  type Scope,
+  scopeLabel,
+} from "./scopes.js";
+import { loadSettings } from "./settings.js";
+
+/**
+ * Collect a repeatable option's values
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
 
 // Parse CLI arguments
 program
   .name("learnings-mcp-server")
   .description("MCP server for managing personal learnings")
   .option(
-    "--repository <path-or-url>",
-    "Repository path or GitHub URL for storing learnings",
+    "--repository <spec>",
+    "Repository path or GitHub URL for storing learnings. Repeat for several, as [name=]<path-or-url>[,read-only][,priority=<n>][,clone=<path>]",
+    collect,
   )
   .option(
     "--clone-location <path>",
-    "Where to clone remote repositories (default: ~/.learnings/<repo-name>)",
+    "Where to clone a single remote repository (default: ~/.learnings/<owner>/<repo-name>)",
   )
   .option(
     "--local-learnings-folder <path>",
     "Local learnings folder relative to current directory (default: learnings)",
   )
+  .option("--transport <transport>", "Transport: stdio or http", "stdio")
+  .option("--port <port>", "Port for the http transport", "3000")
+  .option("--host <host>", "Host for the http transport", "127.0.0.1")
+  .option(
+    "--allowed-host <host>",
+    "Host name clients may reach the http transport by, besides localhost. Repeat for several",
+    collect,
+  )
+  .option(
+    "--local-learnings-root <path>",
+    "Folder under which http sessions may choose their local learnings folder with the X-Learnings-Local-Folder header",
+  )
+  .option(
+    "--commit-strategy <strategy>",
+    "When to commit repository learnings: immediate, batched, or manual (default: immediate)",
+  )
+  .option(
+    "--commit-delay <seconds>",
+    "Seconds without writes before a batched commit (default: 30)",
+  )
+  .option(
+    "--commit-template <template>",
+    "Commit message for repository learnings, with {action}, {filename}, {title} and {topic} placeholders",
+  )
+  .option(
+    "--commit-footer <footer>",
+    "Text appended to commit messages (empty for none)",
+  )
+  .option("--commit-author <identity>", 'Commit author as "Name <email>"')
+  .option("--committer <identity>", 'Committer as "Name <email>"')
+  .option("--sign-commits <format>", "Sign commits: gpg or ssh")
+  .option("--signing-key <key>", "Key to sign commits with")
+  .option(
+    "--trash-retention <days>",
+    "Days deleted learnings stay in the trash (0 keeps them, default: 30)",
+  )
+  .option(
+    "--topic-folders",
+    "Put new learnings in a folder named after their topic",
+  )
+  .option("--no-topic-folders", "Keep new learnings out of topic folders")
+  .option(
+    "--readme-index",
+    "Rebuild a README.md index of each repository's learnings after every change",
+  )
+  .option("--no-readme-index", "Don't maintain the README.md index")
+  .option(
+    "--default-scope <scope>",
+    "Where new learnings go: a repository name or local (default: the first writable repository)",
+  )
+  .option(
+    "--sync-interval <minutes>",
+    "How often to pull git repositories (0 disables, default: 10)",
+  )
+  .option("--limit <number>", "Results per list_learnings call (default: 6)")
   .parse();
 
 const options = program.opts();
 
-// Load and validate configuration
-const config = loadConfig({
-  repository: options.repository,
-  cloneLocation: options.cloneLocation,
-});
-
-// Initialize global repository and learnings module
-const globalRepository = config.isGitRepo
-  ? new GitHubRepository(config.learningsPath)
-  : new FileSystemRepository(config.learningsPath);
-const globalLearnings = new LearningsModule(globalRepository);
-
-// Initialize local repository (always FileSystemRepository, no git operations)
-const localLearningsFolder = options.localLearningsFolder || "learnings";
-const localLearningsPath = join(process.cwd(), localLearningsFolder);
-// Note: Directory will be created lazily when first local learning is added
-const localRepository = new FileSystemRepository(localLearningsPath);
-const localLearnings = new LearningsModule(localRepository);
-
-// Get metadata for dynamic descriptions from both repositories
-const [globalMetadata, localMetadata] = await Promise.all([
-  globalLearnings.getMetadata(),
-  localLearnings.getMetadata(),
-]);
-const allTopics = [
-  ...new Set([...globalMetadata.topics, ...localMetadata.topics]),
-];
-const allTags = [...new Set([...globalMetadata.tags, ...localMetadata.tags])];
-const topicsPreview = allTopics.slice(0, 5).join(", ");
-const tagsPreview = allTags.slice(0, 8).join(", ");
-
-// Create the learnings MCP server
-const server = new McpServer({
-  name: "learnings-mcp-server",
-  version: "1.0.0",
-});
-
-// Tool: List/search learnings
-server.registerTool(
-  "list_learnings",
+// Flags override environment variables and config files
+const { settings } = loadSettings(options);
+const port = parsePort(options.port);
+
+const trashRetentionDays = settings.trashRetention;
+const learningsOptions = { topicFolders: settings.topicFolders };
+
+// Load and validate configuration, then open every repository, highest
+// priority first
+const repositories = openRepositories(
+  loadRepositories(settings.repositories, {
+    cloneLocation: settings.cloneLocation,
+  }),
   {
-    title: "List Learnings",
-    description: `Search and list learnings by topic, tags, or text search. Available topics: ${topicsPreview}${allTopics.length > 5 ? "..." : ""}. Available tags: ${tagsPreview}${allTags.length > 8 ? "..." : ""}.`,
-    inputSchema: {
-      topic: z.string().optional().describe("Filter by topic"),
-      tags: z
-        .array(z.string())
-        .optional()
-        .describe("Filter by tags (must have all)"),
-      search: z
-        .string()
-        .optional()
-        .describe("Text search in title and content"),
-      limit: z
-        .number()
-        .optional()
-        .default(6)
-        .describe("Maximum number of results to return (default: 6)"),
-    },
+    trashRetentionDays,
+    commitStrategy: settings.commitStrategy,
+    batchDelayMs: settings.commitDelay * 1000,
+    commitTemplate: settings.commitTemplate,
+    commitFooter: settings.commitFooter,
+    author: settings.commitAuthor,
+    committer: settings.committer,
+    sign: settings.signCommits,
+    signingKey: settings.signingKey,
+    readmeIndex: settings.readmeIndex,
   },
-  async ({ topic, tags, search, limit = 6 }) => {
-    try {
-      const [globalResults, localResults, globalMeta, localMeta] =
-        await Promise.all([
-          globalLearnings.list({ topic, tags, search }),
-          localLearnings.list({ topic, tags, search }),
-          globalLearnings.getMetadata(),
-          localLearnings.getMetadata(),
+  learningsOptions,
+);
+
+// Pull git repositories on startup and periodically after that
+const syncs = new Map(
+  repositories
+    .filter((scope) => scope.learnings.canSync)
+    .map((scope) => [
+      scope.name,
+      new LearningsSync(scope.learnings, (error) =>
+        console.error(
+          `Sync of ${scope.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      ),
+    ]),
+);
+for (const sync of syncs.values()) {
+  sync.start(settings.syncInterval);
+}
+
+/**
+ * Resource URI of a learning
+ */
+function learningUri(scope: string, filename: string): string {
+  return `learning://${scope}/${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Format a learning as markdown with its metadata, and the learnings
+ * linking to it when given
+ */
+function formatLearning(
+  learning: Learning,
+  scope: string,
+  backlinks?: string[],
+): string {
+  const { metadata } = learning;
+  return `# ${metadata.title}
+
+**Scope**: ${scopeLabel(scope)}
+**Topic**: ${metadata.topic}
+**Tags**: ${metadata.tags.join(", ") || "none"}
+**Created**: ${metadata.created}${metadata.updated ? `\n**Updated**: ${metadata.updated}` : ""}
+**Related**: ${metadata.related.join(", ") || "none"}${backlinks ? `\n**Backlinks**: ${backlinks.join(", ") || "none"}` : ""}
+
+---
+
+${learning.content}`;
+}
+
+/**
+ * Describe the outcome of moving a learning between scopes
+ */
+function formatMoveResult(
+  result: MoveResult,
+  from: string,
+  to: string,
+): string {
+  if (result.status === "conflict") {
+    return `Cannot move ${from} learning ${result.from}: ${to} learning ${result.filename} already exists with different content.\n\n\`\`\`diff\n${result.diff}\n\`\`\``;
+  }
+  let text = result.merged
+    ? `Merged ${from} learning ${result.from} into ${to} learning ${result.filename}`
+    : `Successfully moved ${from} learning ${result.from} to ${to} learning ${result.filename}`;
+  if (result.dangling.length > 0) {
+    text += `\n\nThese ${from} learnings still link to ${result.from}: ${result.dangling.join(", ")}`;
+  }
+  return text;
+}
+
+/**
+ * Format a search result as a markdown list item labelled with its scope,
+ * with score and snippet when searching by text
+ */
+function formatResult(r: SearchResult & { scope: string }): string {
+  const score = r.score !== undefined ? ` [score: ${r.score.toFixed(2)}]` : "";
+  const snippet = r.snippet ? `\n  > ${r.snippet}` : "";
+  return `- **${r.filename}**: ${r.title} (${r.scope}, topic: ${r.topic})${score}${snippet}`;
+}
+
+/**
+ * Section naming the learning files that could not be parsed, or an empty
+ * string when every file parsed
+ */
+function formatParseErrors(errors: { scope: string; error: ParseError }[]) {
+  if (errors.length === 0) {
+    return "";
+  }
+  const files = errors
+    .map(({ scope, error }) => `- ${error.filename} (${scope})`)
+    .join("\n");
+  return `**${errors.length} file${errors.length === 1 ? "" : "s"} could not be parsed** and ${errors.length === 1 ? "is" : "are"} left out (see learning_diagnostics):\n${files}`;
+}
+
+/**
+ * Tool result for a failed call. Refused filenames also come back as
+ * structured content, so clients can tell what to fix without parsing the
+ * message.
+ */
+function errorResult(prefix: string, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [{ type: "text" as const, text: `${prefix}: ${message}` }],
+    ...(error instanceof FilenameError
+      ? {
+          structuredContent: {
+            error: {
+              type: "invalid_filename",
+              code: error.code,
+              filename: error.filename,
+              message,
+            },
+          },
+        }
+      : {}),
+    isError: true,
+  };
+}
+
+/**
+ * Count occurrences of each key, most used first
+ */
+function countBy(keys: string[]): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const key of keys) {
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return [...counts.entries()].sort(
+    (a, b) => b[1] - a[1] || a[0].localeCompare(b[0]),
+  );
+}
+
+/**
+ * Create an MCP server for one client, with its own local learnings folder
+ */
+async function createServer(localLearningsPath: string): Promise<McpServer> {
+  // The local folder is never committed, and is created lazily when the
+  // first local learning is added
+  const local = openLocal(
+    localLearningsPath,
+    { trashRetentionDays },
+    learningsOptions,
+  );
+  const scopes: Scope[] = [...repositories, local];
+  const names = scopes.map((s) => s.name) as [string, ...string[]];
+  const scopeSchema = z.enum(names);
+  const { name: defaultScopeName } = defaultScope(
+    scopes,
+    settings.defaultScope,
+  );
+  const defaultLimit = settings.limit ?? 6;
+
+  // Get metadata for dynamic descriptions from every scope
+  const metadata = await Promise.all(
+    scopes.map((s) => s.learnings.getMetadata()),
+  );
+  const allTopics = [...new Set(metadata.flatMap((m) => m.topics))];
+  const allTags = [...new Set(metadata.flatMap((m) => m.tags))];
+  const topicsPreview = allTopics.slice(0, 5).join(", ");
+  const tagsPreview = allTags.slice(0, 8).join(", ");
+
+  // Create the learnings MCP server
+  const server = new McpServer(
+    {
+      name: "learnings-mcp-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        resources: { subscribe: true, listChanged: true },
+      },
+    },
+  );
+
+  /**
+   * The given scope, or every scope
+   */
+  const select = (scope?: string) =>
+    scope ? [findScope(scopes, scope)] : scopes;
+
+  const parseErrors = async () =>
+    (
+      await Promise.all(
+        scopes.map(async (scope) =>
+          (
+            await scope.learnings.parseErrors()
+          ).map((error) => ({
+            scope: scope.name,
+            error,
+          })),
+        ),
+      )
+    ).flat();
+
+  // Tool: List/search learnings
+  server.registerTool(
+    "list_learnings",
+    {
+      title: "List Learnings",
+      description: `Search and list learnings by topic, tags, or text search, across ${names.join(", ")}. Available topics: ${topicsPreview}${allTopics.length > 5 ? "..." : ""}. Available tags: ${tagsPreview}${allTags.length > 8 ? "..." : ""}.`,
+      inputSchema: {
+        topic: z.string().optional().describe("Filter by topic"),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe("Filter by tags (must have all)"),
+        search: z
+          .string()
+          .optional()
+          .describe(
+            "Ranked full-text search over title, tags, topic and content. Terms are OR-ed; use AND to require terms (e.g. 'rebase AND squash')",
+          ),
+        mode: z
+          .enum(["keyword", "semantic"])
+          .optional()
+          .default("keyword")
+          .describe(
+            "How to match 'search': keyword (ranked terms) or semantic (embedding similarity, finds learnings phrased differently)",
+          ),
+        scope: scopeSchema
+          .optional()
+          .describe("Only list this repository or local (default: all)"),
+        limit: z
+          .number()
+          .optional()
+          .describe(
+            `Maximum number of results to return (default: ${defaultLimit})`,
+          ),
+      },
+    },
+    async ({ topic, tags, search, mode, scope, limit = defaultLimit }) => {
+      try {
+        const selected = select(scope);
+        const [lists, selectedMetadata] = await Promise.all([
+          Promise.all(
+            selected.map(async (s) =>
+              (await s.learnings.list({ topic, tags, search, mode })).map(
+                (r) => ({ ...r, scope: s.name }),
+              ),
+            ),
+          ),
+          Promise.all(selected.map((s) => s.learnings.getMetadata())),
         ]);
+        const errorSection = formatParseErrors(await parseErrors());
+        const errorNote = errorSection ? `\n\n${errorSection}` : "";
 
-      const totalResults = globalResults.length + localResults.length;
+        // Scopes come by priority; a search ranks across all of them, and
+        // the stable sort keeps higher priorities first on equal scores
+        const results = lists.flat();
+        if (search) {
+          results.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+        }
 
-      if (totalResults === 0) {
         const allTopics = [
-          ...new Set([...globalMeta.topics, ...localMeta.topics]),
+          ...new Set(selectedMetadata.flatMap((m) => m.topics)),
         ];
-        const allTags = [...new Set([...globalMeta.tags, ...localMeta.tags])];
+        const allTags = [...new Set(selectedMetadata.flatMap((m) => m.tags))];
+        const metadataSection = `**Available topics**: ${allTopics.join(", ") || "none"}\n**Available tags**: ${allTags.join(", ") || "none"}`;
+
+        if (results.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No learnings found matching the criteria.\n\n${metadataSection}${errorNote}`,
+              },
+            ],
+          };
+        }
+
+        const displayed = results.slice(0, limit);
+        const response = `**Learnings** (${results.length}):\n\n${displayed.map(formatResult).join("\n")}`;
+        const truncationNote =
+          results.length > displayed.length
+            ? `\n\n_Showing ${displayed.length} of ${results.length} total results. Use filters or increase limit to see more._`
+            : "";
+
         return {
           content: [
             {
               type: "text",
-              text: `No learnings found matching the criteria.\n\n**Available topics**: ${allTopics.join(", ") || "none"}\n**Available tags**: ${allTags.join(", ") || "none"}`,
+              text: `${metadataSection}\n\n${response}${truncationNote}${errorNote}`,
             },
           ],
         };
+      } catch (error) {
+        return errorResult("Error listing learnings", error);
       }
+    },
+  );
 
-      // Apply limit to each section proportionally
-      const globalLimit = Math.ceil(
-        limit * (globalResults.length / totalResults),
-      );
-      const localLimit = limit - globalLimit;
+  // Tool: Get learning content
+  server.registerTool(
+    "get_learning",
+    {
+      title: "Get Learning",
+      description:
+        "Fetch the full content of a learning by filename, with the learnings linking to it",
+      inputSchema: {
+        filename: z
+          .string()
+          .describe(
+            "The filename of the learning (e.g., 'git-rebase.md' or 'git/rebase.md')",
+          ),
+      },
+    },
+    async ({ filename }) => {
+      try {
+        checkFilename(filename);
+        const results = await Promise.allSettled(
+          scopes.map((s) => s.learnings.get(filename)),
+        );
 
-      const displayGlobal = globalResults.slice(0, globalLimit);
-      const displayLocal = localResults.slice(0, localLimit);
+        const sections: string[] = [];
+        for (const [i, result] of results.entries()) {
+          const scope = scopes[i];
+          if (result.status !== "fulfilled" || !scope) continue;
+          sections.push(
+            formatLearning(
+              result.value,
+              scope.name,
+              await scope.learnings.backlinks(filename),
+            ),
+          );
+        }
 
-      let response = "";
+        if (sections.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Learning not found: ${filename}`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-      if (displayGlobal.length > 0) {
-        const formatted = displayGlobal
-          .map((r) => `- **${r.filename}**: ${r.title} (topic: ${r.topic})`)
-          .join("\n");
-        response += `**Global learnings** (${globalResults.length}):\n\n${formatted}`;
-      }
+        const response = sections.join("\n\n---\n\n");
 
-      if (displayLocal.length > 0) {
-        const formatted = displayLocal
-          .map((r) => `- **${r.filename}**: ${r.title} (topic: ${r.topic})`)
-          .join("\n");
-        response +=
-          (response ? "\n\n" : "") +
-          `**Local learnings** (${localResults.length}):\n\n${formatted}`;
+        return {
+          content: [{ type: "text", text: response }],
+        };
+      } catch (error) {
+        return errorResult("Error reading learning", error);
       }
+    },
+  );
 
-      const allTopics = [
-        ...new Set([...globalMeta.topics, ...localMeta.topics]),
-      ];
-      const allTags = [...new Set([...globalMeta.tags, ...localMeta.tags])];
-      const metadataSection = `**Available topics**: ${allTopics.join(", ") || "none"}\n**Available tags**: ${allTags.join(", ") || "none"}`;
+  // Tool: Add learning
+  server.registerTool(
+    "add_learning",
+    {
+      title: "Add Learning",
+      description:
+        "Create a new learning. IMPORTANT: Before using this tool, invoke the 'learning_guidelines' or 'create_learning' prompt to understand the proper format and structure. If similar learnings already exist, nothing is written and the closest ones are listed; update one of them instead, or pass force: true.",
+      inputSchema: {
+        filename: z
+          .string()
+          .describe(
+            "Filename in format: {context}-{short-title}.md, optionally in a folder (e.g. 'git/rebase.md')",
+          ),
+        title: z.string().describe("Short descriptive title"),
+        topic: z.string().describe("Main topic/category"),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe("Tags for categorization"),
+        oneLiner: z.string().describe("One-line description"),
+        context: z.string().describe("When/why to use this"),
+        examples: z.string().describe("Code snippets and examples"),
+        related: z
+          .array(z.string())
+          .optional()
+          .describe("Related learning filenames"),
+        scope: scopeSchema
+          .optional()
+          .describe(
+            `Where to store the learning (default: ${defaultScopeName}, recommended)`,
+          ),
+        force: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Add even if similar learnings already exist"),
+      },
+    },
+    async ({
+      filename,
+      title,
+      topic,
+      tags,
+      oneLiner,
+      context,
+      examples,
+      related,
+      scope = defaultScopeName,
+      force,
+    }) => {
+      try {
+        const target = findScope(scopes, scope);
+        const params = {
+          filename,
+          title,
+          topic,
+          tags,
+          oneLiner,
+          context,
+          examples,
+          related,
+        };
 
-      const truncated =
-        totalResults > displayGlobal.length + displayLocal.length;
-      const truncationNote = truncated
-        ? `\n\n_Showing ${displayGlobal.length + displayLocal.length} of ${totalResults} total results. Use filters or increase limit to see more._`
-        : "";
+        if (!force) {
+          const draft = target.learnings.draft(params);
+          const similar = (
+            await Promise.all(
+              scopes.map(async (s) =>
+                (
+                  await s.learnings.findSimilar(draft)
+                ).map((match) => ({
+                  scope: s.name,
+                  ...match,
+                })),
+              ),
+            )
+          )
+            .flat()
+            .sort((a, b) => b.score - a.score)
+            .slice(0, 3);
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `${metadataSection}\n\n${response}${truncationNote}`,
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing learnings: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  },
-);
+          if (similar.length > 0) {
+            const list = similar
+              .map(
+                ({ scope: s, learning, score }) =>
+                  `- **${learning.filename}** (${s}): ${learning.metadata.title} [${Math.round(score * 100)}% similar]`,
+              )
+              .join("\n");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Not created: similar learnings already exist.\n\n${list}\n\nUse get_learning and update_learning to extend one of them, or call add_learning again with force: true if this is a different learning.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
 
-// Tool: Get learning content
-server.registerTool(
-  "get_learning",
-  {
-    title: "Get Learning",
-    description: "Fetch the full content of a learning by filename",
-    inputSchema: {
-      filename: z
-        .string()
-        .describe("The filename of the learning (e.g., 'git-rebase.md')"),
+        const result = await target.learnings.add(params);
+        // The local folder may have just been created
+        watcher.watch(target.path);
+        notifyLearningChanged(scope, result.filename);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully created ${scope} learning: ${result.filename}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult("Error creating learning", error);
+      }
     },
-  },
-  async ({ filename }) => {
-    try {
-      const results = await Promise.allSettled([
-        globalLearnings.get(filename),
-        localLearnings.get(filename),
-      ]);
-
-      const globalLearning =
-        results[0].status === "fulfilled" ? results[0].value : null;
-      const localLearning =
-        results[1].status === "fulfilled" ? results[1].value : null;
-
-      if (!globalLearning && !localLearning) {
+  );
+
+  // Tool: Update learning
+  server.registerTool(
+    "update_learning",
+    {
+      title: "Update Learning",
+      description:
+        "Update fields of an existing learning. Only the given fields change; the rest (including the created date) is kept.",
+      inputSchema: {
+        filename: z.string().describe("The filename of the learning to update"),
+        scope: scopeSchema.describe(
+          `Where the learning is stored (${names.join(", ")})`,
+        ),
+        title: z.string().optional().describe("New title"),
+        topic: z.string().optional().describe("New topic"),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe("New tags (replaces existing tags)"),
+        oneLiner: z.string().optional().describe("New one-line description"),
+        context: z.string().optional().describe("New Context section"),
+        examples: z.string().optional().describe("New Examples section"),
+        related: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "New related learning filenames (replaces existing; an empty list removes them all)",
+          ),
+      },
+    },
+    async ({ filename, scope, ...changes }) => {
+      try {
+        const { learnings } = findScope(scopes, scope);
+        const result = await learnings.update(filename, changes);
+        notifyLearningChanged(scope, result.filename);
+
         return {
           content: [
             {
               type: "text",
-              text: `Learning not found: ${filename}`,
+              text: `Successfully updated ${scope} learning: ${result.filename}`,
             },
           ],
-          isError: true,
         };
+      } catch (error) {
+        return errorResult("Error updating learning", error);
       }
+    },
+  );
 
-      let response = "";
+  // Tool: Sync learnings
+  server.registerTool(
+    "sync_learnings",
+    {
+      title: "Sync Learnings",
+      description:
+        "Pull the latest learnings of every git repository from its remote and report what arrived since the last sync",
+      inputSchema: {},
+    },
+    async () => {
+      if (syncs.size === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No learnings are in a git repository, nothing to sync.",
+            },
+          ],
+        };
+      }
 
-      if (globalLearning) {
-        const formatted = `# ${globalLearning.metadata.title}
+      try {
+        const sections = [];
+        for (const [name, sync] of syncs) {
+          const { learnings } = findScope(scopes, name);
+          const result = await sync.sync();
+          const total =
+            result.added.length + result.changed.length + result.removed.length;
 
-**Scope**: Global
-**Topic**: ${globalLearning.metadata.topic}
-**Tags**: ${globalLearning.metadata.tags.join(", ") || "none"}
-**Created**: ${globalLearning.metadata.created}
-**Related**: ${globalLearning.metadata.related.join(", ") || "none"}
+          if (total === 0) {
+            sections.push(`${scopeLabel(name)} learnings are up to date.`);
+            continue;
+          }
 
----
+          const describe = async (filename: string) => {
+            try {
+              const learning = await learnings.get(filename);
+              return `- **${filename}**: ${learning.metadata.title}`;
+            } catch {
+              return `- **${filename}**`;
+            }
+          };
+
+          if (result.added.length > 0) {
+            const lines = await Promise.all(result.added.map(describe));
+            sections.push(
+              `**Added to ${name}** (${result.added.length}):\n\n${lines.join("\n")}`,
+            );
+          }
+          if (result.changed.length > 0) {
+            const lines = await Promise.all(result.changed.map(describe));
+            sections.push(
+              `**Changed in ${name}** (${result.changed.length}):\n\n${lines.join("\n")}`,
+            );
+          }
+          if (result.removed.length > 0) {
+            const lines = result.removed.map((filename) => `- **${filename}**`);
+            sections.push(
+              `**Removed from ${name}** (${result.removed.length}):\n\n${lines.join("\n")}`,
+            );
+          }
+        }
+
+        return {
+          content: [{ type: "text", text: sections.join("\n\n") }],
+        };
+      } catch (error) {
+        return errorResult("Error syncing learnings", error);
+      }
+    },
+  );
+
+  // Tool: Commit learnings
+  server.registerTool(
+    "commit_learnings",
+    {
+      title: "Commit Learnings",
+      description:
+        "Commit and push pending learning changes of every git repository now. Only needed when the server defers commits (batched or manual commit strategy).",
+      inputSchema: {},
+    },
+    async () => {
+      const committable = repositories.filter((s) => s.learnings.canCommit);
+      if (committable.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No learnings are in a git repository, nothing to commit.",
+            },
+          ],
+        };
+      }
 
-${globalLearning.content}`;
-        response += formatted;
+      try {
+        const lines: string[] = [];
+        for (const scope of committable) {
+          const committed = await scope.learnings.commit();
+          lines.push(...committed.map((f) => `- ${f} (${scope.name})`));
+        }
+        const text =
+          lines.length === 0
+            ? "No pending changes to commit."
+            : `Committed and pushed ${lines.length} learning(s):\n\n${lines.join("\n")}`;
+        return { content: [{ type: "text", text }] };
+      } catch (error) {
+        return errorResult("Error committing learnings", error);
       }
+    },
+  );
 
-      if (localLearning) {
-        const formatted = `# ${localLearning.metadata.title}
+  // Tool: Learning history
+  server.registerTool(
+    "learning_history",
+    {
+      title: "Learning History",
+      description:
+        "List the revisions of a learning, diff two revisions, or restore a previous revision (committed as a new revision). Learnings in git repositories only.",
+      inputSchema: {
+        filename: z.string().describe("The filename of the learning"),
+        scope: scopeSchema
+          .optional()
+          .describe(
+            "The repository the learning is in (default: the first one with history)",
+          ),
+        from: z
+          .string()
+          .optional()
+          .describe(
+            "Show the diff from this revision (commit hash from the history)",
+          ),
+        to: z
+          .string()
+          .optional()
+          .describe(
+            "Revision to diff against (default: the current version). Requires from",
+          ),
+        restore: z
+          .string()
+          .optional()
+          .describe("Restore the learning to this revision"),
+      },
+    },
+    async ({ filename, scope, from, to, restore }) => {
+      try {
+        const selected = scope
+          ? findScope(scopes, scope)
+          : scopes.find((s) => s.learnings.hasHistory);
+        if (!selected?.learnings.hasHistory) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `${scope ? `${scopeLabel(scope)} learnings are not` : "No learnings are"} in a git repository, no history available.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        const { learnings } = selected;
 
-**Scope**: Local
-**Topic**: ${localLearning.metadata.topic}
-**Tags**: ${localLearning.metadata.tags.join(", ") || "none"}
-**Created**: ${localLearning.metadata.created}
-**Related**: ${localLearning.metadata.related.join(", ") || "none"}
+        if (restore) {
+          await learnings.restore(filename, restore);
+          notifyLearningChanged(selected.name, filename);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Restored ${selected.name} learning ${filename} to revision ${restore}`,
+              },
+            ],
+          };
+        }
 
----
+        if (from) {
+          const diff = await learnings.diff(filename, from, to);
+          const text = diff
+            ? `\`\`\`diff\n${diff}\`\`\``
+            : `No differences in ${filename} between ${from} and ${to ?? "the current version"}.`;
+          return { content: [{ type: "text", text }] };
+        }
 
-${localLearning.content}`;
-        response += (response ? "\n\n---\n\n" : "") + formatted;
+        const revisions = await learnings.history(filename);
+        const lines = revisions.map(
+          (r) =>
+            `- ${r.hash.slice(0, 7)} ${r.date.slice(0, 10)} ${r.author}: ${r.message}`,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `History of ${filename} (${revisions.length} revisions, newest first):\n\n${lines.join("\n")}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult("Error reading learning history", error);
       }
+    },
+  );
 
-      return {
-        content: [{ type: "text", text: response }],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error reading learning: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  },
-);
+  // Tool: Rename learning
+  server.registerTool(
+    "rename_learning",
+    {
+      title: "Rename Learning",
+      description:
+        "Rename a learning and rewrite the related entries and links of every learning that references it, as a single change. Can also move a learning to another repository or the local scope.",
+      inputSchema: {
+        filename: z.string().describe("The current filename of the learning"),
+        scope: scopeSchema.describe(
+          `Where the learning is stored (${names.join(", ")})`,
+        ),
+        newFilename: z
+          .string()
+          .optional()
+          .describe("The new filename (default: keep the current one)"),
+        toScope: scopeSchema
+          .optional()
+          .describe("Move the learning to this scope (default: stay)"),
+        onConflict: z
+          .enum(["fail", "merge", "rename"])
+          .optional()
+          .default("fail")
+          .describe(
+            "When moving and the filename exists in toScope: fail (show the diff), merge, or rename (default: fail)",
+          ),
+      },
+    },
+    async ({ filename, scope, newFilename, toScope = scope, onConflict }) => {
+      try {
+        const source = findScope(scopes, scope).learnings;
+        let text: string;
 
-// Tool: Add learning
-server.registerTool(
-  "add_learning",
-  {
-    title: "Add Learning",
-    description:
-      "Create a new learning. IMPORTANT: Before using this tool, invoke the 'learning_guidelines' or 'create_learning' prompt to understand the proper format and structure.",
-    inputSchema: {
-      filename: z
-        .string()
-        .describe("Filename in format: {context}-{short-title}.md"),
-      title: z.string().describe("Short descriptive title"),
-      topic: z.string().describe("Main topic/category"),
-      tags: z.array(z.string()).optional().describe("Tags for categorization"),
-      oneLiner: z.string().describe("One-line description"),
-      context: z.string().describe("When/why to use this"),
-      examples: z.string().describe("Code snippets and examples"),
-      related: z
-        .array(z.string())
-        .optional()
-        .describe("Related learning filenames"),
-      scope: z
-        .enum(["global", "local"])
-        .optional()
-        .default("global")
-        .describe("Where to store the learning (default: global, recommended)"),
+        if (toScope !== scope) {
+          const result = await source.moveTo(
+            findScope(scopes, toScope).learnings,
+            filename,
+            newFilename,
+            onConflict,
+          );
+          if (result.status === "conflict") {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `${formatMoveResult(result, scope, toScope)}\n\nRetry with onConflict 'merge' to combine them, or give a different newFilename.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          notifyLearningChanged(scope, filename);
+          notifyLearningChanged(toScope, result.filename);
+          text = formatMoveResult(result, scope, toScope);
+        } else {
+          if (!newFilename) {
+            throw new Error("Give a newFilename or a different toScope");
+          }
+          const { filename: renamed, updated } = await source.rename(
+            filename,
+            newFilename,
+          );
+          notifyLearningChanged(scope, filename);
+          notifyLearningChanged(scope, renamed);
+          for (const f of updated) {
+            notifyLearningChanged(scope, f);
+          }
+          text = `Successfully renamed ${scope} learning ${filename} to ${renamed}`;
+          if (updated.length > 0) {
+            text += `\n\nUpdated references in: ${updated.join(", ")}`;
+          }
+        }
+
+        return { content: [{ type: "text", text }] };
+      } catch (error) {
+        return errorResult("Error renaming learning", error);
+      }
     },
-  },
-  async ({
-    filename,
-    title,
-    topic,
-    tags,
-    oneLiner,
-    context,
-    examples,
-    related,
-    scope = "global",
-  }) => {
-    try {
-      const targetLearnings =
-        scope === "local" ? localLearnings : globalLearnings;
-
-      const result = await targetLearnings.add({
-        filename,
+  );
+
+  // Tools: Promote and demote learnings, between the local scope and a
+  // repository
+  const repositoryNames = repositories.map((s) => s.name) as [
+    string,
+    ...string[],
+  ];
+  const { name: defaultRepository } = defaultScope(repositories);
+  for (const [name, title, promote] of [
+    ["promote_learning", "Promote Learning", true],
+    ["demote_learning", "Demote Learning", false],
+  ] as const) {
+    const from = promote ? "local" : "repository";
+    const to = promote ? "repository" : "local";
+    server.registerTool(
+      name,
+      {
         title,
+        description: `Move a ${from} learning to ${to} scope, or every ${from} learning matching topic/tags/search when no filename is given. If the filename is taken in ${to} scope, the learning is left in place and the diff is shown, unless onConflict is 'merge' (combine them) or 'rename' (keep both).`,
+        inputSchema: {
+          filename: z
+            .string()
+            .optional()
+            .describe(`The ${from} learning to move (omit for bulk mode)`),
+          newFilename: z
+            .string()
+            .optional()
+            .describe(`Filename in ${to} scope (default: the same)`),
+          repository: z
+            .enum(repositoryNames)
+            .optional()
+            .describe(
+              `Repository to move ${promote ? "to" : "from"} (default: ${defaultRepository})`,
+            ),
+          topic: z.string().optional().describe("Bulk mode: filter by topic"),
+          tags: z
+            .array(z.string())
+            .optional()
+            .describe("Bulk mode: filter by tags (must have all)"),
+          search: z
+            .string()
+            .optional()
+            .describe("Bulk mode: filter by text search"),
+          onConflict: z
+            .enum(["fail", "merge", "rename"])
+            .optional()
+            .default("fail")
+            .describe(
+              `What to do when the filename exists in ${to} scope: fail (show the diff), merge, or rename (default: fail)`,
+            ),
+        },
+      },
+      async ({
+        filename,
+        newFilename,
+        repository = defaultRepository,
         topic,
         tags,
-        oneLiner,
-        context,
-        examples,
-        related,
-      });
+        search,
+        onConflict,
+      }) => {
+        try {
+          const other = findScope(repositories, repository);
+          const [source, target] = promote ? [local, other] : [other, local];
+
+          if (!filename && !topic && !tags?.length && !search) {
+            throw new Error(
+              "Give a filename, or a topic, tags or search to move in bulk",
+            );
+          }
+          const results = filename
+            ? [
+                await source.learnings.moveTo(
+                  target.learnings,
+                  filename,
+                  newFilename,
+                  onConflict,
+                ),
+              ]
+            : await source.learnings.moveAllTo(
+                target.learnings,
+                { topic, tags, search },
+                onConflict,
+              );
+
+          for (const result of results) {
+            if (result.status === "moved") {
+              notifyLearningChanged(source.name, result.from);
+              notifyLearningChanged(target.name, result.filename);
+            }
+          }
+
+          const conflicts = results.filter((r) => r.status === "conflict");
+          let text =
+            results
+              .map((r) => formatMoveResult(r, source.name, target.name))
+              .join("\n\n") || `No ${source.name} learnings match the filter.`;
+          if (conflicts.length > 0) {
+            text +=
+              "\n\nRetry with onConflict 'merge' to combine conflicting learnings, or 'rename' to keep both.";
+          }
+          return {
+            content: [{ type: "text", text }],
+            ...(filename && conflicts.length > 0 ? { isError: true } : {}),
+          };
+        } catch (error) {
+          return errorResult("Error moving learning", error);
+        }
+      },
+    );
+  }
+
+  // Tool: Remove learning
+  server.registerTool(
+    "remove_learning",
+    {
+      title: "Remove Learning",
+      description:
+        "Delete a learning by filename. It is moved to the trash and can be brought back with restore_from_trash until it is purged.",
+      inputSchema: {
+        filename: z.string().describe("The filename of the learning to delete"),
+        scope: scopeSchema.describe(
+          `Where to delete the learning from (${names.join(", ")})`,
+        ),
+      },
+    },
+    async ({ filename, scope }) => {
+      try {
+        await findScope(scopes, scope).learnings.remove(filename);
+        notifyLearningChanged(scope, filename);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully deleted ${scope} learning: ${filename}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult("Error deleting learning", error);
+      }
+    },
+  );
+
+  // Tool: Check links
+  server.registerTool(
+    "check_links",
+    {
+      title: "Check Links",
+      description:
+        "Report related and inline links to learnings that don't exist, and orphan learnings that link to nothing and are linked from nowhere",
+      inputSchema: {
+        scope: scopeSchema
+          .optional()
+          .describe("Only check this scope (default: all)"),
+      },
+    },
+    async ({ scope }) => {
+      try {
+        const sections: string[] = [];
+        for (const s of select(scope)) {
+          const graph = await s.learnings.graph();
+          if (graph.nodes.length === 0) continue;
+
+          const dangling = danglingLinks(graph);
+          const orphaned = orphans(graph);
+          const label = scopeLabel(s.name);
+          let section = `**${label} learnings**: ${graph.nodes.length} learnings, ${graph.links.length} links`;
+          section += `\n\nDangling links (${dangling.length}):${dangling.map((l) => `\n- ${l.from} → ${l.to} (${l.source})`).join("") || " none"}`;
+          section += `\n\nOrphans (${orphaned.length}):${orphaned.map((f) => `\n- ${f}`).join("") || " none"}`;
+          sections.push(section);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: sections.join("\n\n") || "No learnings to check.",
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult("Error checking links", error);
+      }
+    },
+  );
+
+  // Tool: Diagnostics
+  server.registerTool(
+    "learning_diagnostics",
+    {
+      title: "Learning Diagnostics",
+      description:
+        "List learning files that could not be parsed (e.g. broken front matter) and are therefore left out of list_learnings, with the parse error of each",
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const errors = await parseErrors();
+        if (errors.length === 0) {
+          return {
+            content: [{ type: "text", text: "All learning files parse." }],
+          };
+        }
+
+        const lines = errors.map(
+          ({ scope, error }) =>
+            `- **${error.filename}** (${scope}): ${error.message}`,
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${errors.length} file${errors.length === 1 ? "" : "s"} could not be parsed:\n\n${lines.join("\n")}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult("Error reading diagnostics", error);
+      }
+    },
+  );
+
+  // Tool: Validate learnings
+  server.registerTool(
+    "validate_learnings",
+    {
+      title: "Validate Learnings",
+      description:
+        "Check learnings against the learning guidelines: front matter, required sections, filename convention, dates, tag casing and dead related links. With fix, fixes what can be fixed automatically.",
+      inputSchema: {
+        scope: scopeSchema
+          .optional()
+          .describe("Only check this scope (default: all)"),
+        fix: z
+          .boolean()
+          .optional()
+          .describe(
+            "Fix tag casing, date format, dead related links, missing title and See Also sections, and rename files that break the naming convention",
+          ),
+      },
+    },
+    async ({ scope, fix }) => {
+      try {
+        const sections: string[] = [];
+        let failed = false;
+        for (const s of select(scope)) {
+          const label = scopeLabel(s.name);
+          // Read-only scopes are only checked
+          const fixing = fix === true && !s.readOnly;
+          let results: LintResult[];
+          try {
+            results = await s.learnings.lint({ fix: fixing });
+          } catch (error) {
+            // Keep reporting the fixes made in other scopes
+            failed = true;
+            sections.push(
+              `**${label} learnings**: ${error instanceof Error ? error.message : String(error)}`,
+            );
+            continue;
+          }
+          if (results.length === 0) continue;
+          if (fixing) {
+            for (const result of results) {
+              if (result.fixed.length > 0) {
+                notifyLearningChanged(s.name, result.filename);
+              }
+            }
+          }
+
+          const problems = results.filter(
+            (r) => r.diagnostics.length > 0 || r.fixed.length > 0,
+          );
+          let section = `**${label} learnings**: ${results.length} checked, ${problems.filter((r) => r.diagnostics.length > 0).length} with problems`;
+          if (fix && s.readOnly) {
+            section += " (read-only, not fixed)";
+          }
+          for (const result of problems) {
+            section += `\n\n${result.filename}:`;
+            for (const d of result.diagnostics) {
+              section += `\n- ${d.severity} [${d.rule}] ${d.message}${d.fixable && !s.readOnly ? " (fixable)" : ""}`;
+            }
+            for (const message of result.fixed) {
+              section += `\n- fixed: ${message}`;
+            }
+          }
+          sections.push(section);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: sections.join("\n\n") || "No learnings to check.",
+            },
+          ],
+          ...(failed && { isError: true }),
+        };
+      } catch (error) {
+        return errorResult("Error validating learnings", error);
+      }
+    },
+  );
+
+  // Tool: List trash
+  server.registerTool(
+    "list_trash",
+    {
+      title: "List Trash",
+      description:
+        "List deleted learnings that can still be restored with restore_from_trash",
+      inputSchema: {
+        scope: scopeSchema
+          .optional()
+          .describe("Only list this scope's trash (default: all)"),
+      },
+    },
+    async ({ scope }) => {
+      try {
+        const sections: string[] = [];
+        for (const s of select(scope)) {
+          const items = await s.learnings.listTrash();
+          if (items.length === 0) continue;
+          const formatted = items
+            .map(
+              (item) =>
+                `- \`${item.id}\` ${item.title ?? item.filename} (${item.filename}, deleted ${item.deletedAt})`,
+            )
+            .join("\n");
+          const label = scopeLabel(s.name);
+          sections.push(
+            `**${label} trash** (${items.length}):\n\n${formatted}`,
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: sections.join("\n\n") || "The trash is empty.",
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult("Error listing trash", error);
+      }
+    },
+  );
+
+  // Tool: Restore from trash
+  server.registerTool(
+    "restore_from_trash",
+    {
+      title: "Restore From Trash",
+      description:
+        "Restore a deleted learning from the trash under its original filename",
+      inputSchema: {
+        id: z.string().describe("The trash id, as shown by list_trash"),
+        scope: scopeSchema.describe("Which scope's trash the learning is in"),
+      },
+    },
+    async ({ id, scope }) => {
+      try {
+        const filename = await findScope(
+          scopes,
+          scope,
+        ).learnings.restoreFromTrash(id);
+        notifyLearningChanged(scope, filename);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully restored ${scope} learning: ${filename}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult("Error restoring learning", error);
+      }
+    },
+  );
+
+  // Tool: Purge trash
+  server.registerTool(
+    "purge_trash",
+    {
+      title: "Purge Trash",
+      description:
+        "Permanently delete a learning from the trash, or empty the trash when no id is given. This cannot be undone.",
+      inputSchema: {
+        id: z
+          .string()
+          .optional()
+          .describe("The trash id to purge (default: everything)"),
+        scope: scopeSchema.describe("Which scope's trash to purge"),
+      },
+    },
+    async ({ id, scope }) => {
+      try {
+        const purged = await findScope(scopes, scope).learnings.purgeTrash(id);
+        const text =
+          purged.length === 0
+            ? "The trash is already empty."
+            : `Permanently deleted ${purged.length} learning(s) from the ${scope} trash:\n\n${purged.map((item) => `- ${item.filename}`).join("\n")}`;
+        return { content: [{ type: "text", text }] };
+      } catch (error) {
+        return errorResult("Error purging trash", error);
+      }
+    },
+  );
+
+  // Prompt: Learning guidelines
+  server.registerPrompt(
+    "learning_guidelines",
+    {
+      title: "Learning Creation Guidelines",
+      description:
+        "Guidelines and best practices for creating well-structured learnings",
+      argsSchema: {},
+    },
+    () => ({
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: LEARNING_GUIDELINES,
+          },
+        },
+      ],
+    }),
+  );
 
+  // Prompt: Learning template
+  server.registerPrompt(
+    "create_learning",
+    {
+      title: "Create Learning Template",
+      description: "Interactive template for creating a new learning",
+      argsSchema: {
+        title: z.string().optional().describe("Learning title"),
+        topic: z.string().optional().describe("Learning topic"),
+        context: z.string().optional().describe("Initial context"),
+      },
+    },
+    ({ title, topic, context }) => LEARNING_TEMPLATE({ title, topic, context }),
+  );
+
+  // Resources: one per learning, per scope
+  for (const { name: scope, learnings } of scopes) {
+    server.registerResource(
+      `${scope}-learning`,
+      new ResourceTemplate(`learning://${scope}/{filename}`, {
+        list: async () => {
+          const results = await learnings.list({});
+          return {
+            resources: results.map((r) => ({
+              uri: learningUri(scope, r.filename),
+              name: r.filename,
+              title: r.title,
+              description: `${r.title} (topic: ${r.topic})`,
+              mimeType: "text/markdown",
+            })),
+          };
+        },
+        complete: {
+          filename: async (value) => {
+            const results = await learnings.list({});
+            return results
+              .map((r) => r.filename)
+              .filter((f) => f.startsWith(value));
+          },
+        },
+      }),
+      {
+        title: `${scopeLabel(scope)} Learning`,
+        description: `A ${scope} learning by filename`,
+        mimeType: "text/markdown",
+      },
+      async (uri, { filename }) => {
+        const name = decodeURIComponent(String(filename));
+        const learning = await learnings.get(name);
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "text/markdown",
+              text: formatLearning(learning, scope),
+            },
+          ],
+        };
+      },
+    );
+  }
+
+  /**
+   * Search results from every scope, labelled by scope
+   */
+  async function listAll(options: { topic?: string; tags?: string[] } = {}) {
+    const lists = await Promise.all(
+      scopes.map(async ({ name, learnings }) =>
+        (await learnings.list(options)).map((r) => ({ ...r, scope: name })),
+      ),
+    );
+    return lists.flat();
+  }
+
+  /**
+   * Markdown list of learnings linking to their resources
+   */
+  function formatLearningLinks(
+    results: Awaited<ReturnType<typeof listAll>>,
+  ): string {
+    return results
+      .map(
+        (r) =>
+          `- [${r.title}](${learningUri(r.scope, r.filename)}) (${r.scope}, topic: ${r.topic})`,
+      )
+      .join("\n");
+  }
+
+  // Resources: topic and tag indexes
+  server.registerResource(
+    "topics-index",
+    "learning://index/topics",
+    {
+      title: "Learning Topics",
+      description: "All topics with their number of learnings",
+      mimeType: "text/markdown",
+    },
+    async (uri) => {
+      const topics = countBy((await listAll()).map((r) => r.topic));
+      const text = topics
+        .map(
+          ([topic, count]) =>
+            `- [${topic}](learning://topic/${encodeURIComponent(topic)}) (${count})`,
+        )
+        .join("\n");
       return {
-        content: [
+        contents: [
           {
-            type: "text",
-            text: `Successfully created ${scope} learning: ${result.filename}`,
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: `# Topics\n\n${text || "No learnings yet."}`,
           },
         ],
       };
-    } catch (error) {
+    },
+  );
+
+  server.registerResource(
+    "tags-index",
+    "learning://index/tags",
+    {
+      title: "Learning Tags",
+      description: "All tags with their number of learnings",
+      mimeType: "text/markdown",
+    },
+    async (uri) => {
+      const tags = countBy((await listAll()).flatMap((r) => r.tags));
+      const text = tags
+        .map(
+          ([tag, count]) =>
+            `- [${tag}](learning://tag/${encodeURIComponent(tag)}) (${count})`,
+        )
+        .join("\n");
       return {
-        content: [
+        contents: [
           {
-            type: "text",
-            text: `Error creating learning: ${error instanceof Error ? error.message : String(error)}`,
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: `# Tags\n\n${text || "No learnings yet."}`,
           },
         ],
-        isError: true,
       };
-    }
-  },
-);
-
-// Tool: Remove learning
-server.registerTool(
-  "remove_learning",
-  {
-    title: "Remove Learning",
-    description: "Delete a learning by filename",
-    inputSchema: {
-      filename: z.string().describe("The filename of the learning to delete"),
-      scope: z
-        .enum(["global", "local"])
-        .describe("Where to delete the learning from (global or local)"),
     },
-  },
-  async ({ filename, scope }) => {
-    try {
-      const targetLearnings =
-        scope === "local" ? localLearnings : globalLearnings;
-      await targetLearnings.remove(filename);
+  );
 
+  server.registerResource(
+    "topic-learnings",
+    new ResourceTemplate("learning://topic/{topic}", {
+      list: undefined,
+      complete: {
+        topic: async (value) =>
+          countBy((await listAll()).map((r) => r.topic))
+            .map(([topic]) => topic)
+            .filter((t) => t.startsWith(value)),
+      },
+    }),
+    {
+      title: "Learnings by Topic",
+      description: "All learnings in a topic",
+      mimeType: "text/markdown",
+    },
+    async (uri, { topic }) => {
+      const name = decodeURIComponent(String(topic));
+      const results = await listAll({ topic: name });
       return {
-        content: [
+        contents: [
           {
-            type: "text",
-            text: `Successfully deleted ${scope} learning: ${filename}`,
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: `# Topic: ${name}\n\n${formatLearningLinks(results) || "No learnings."}`,
           },
         ],
       };
-    } catch (error) {
+    },
+  );
+
+  server.registerResource(
+    "tag-learnings",
+    new ResourceTemplate("learning://tag/{tag}", {
+      list: undefined,
+      complete: {
+        tag: async (value) =>
+          countBy((await listAll()).flatMap((r) => r.tags))
+            .map(([tag]) => tag)
+            .filter((t) => t.startsWith(value)),
+      },
+    }),
+    {
+      title: "Learnings by Tag",
+      description: "All learnings with a tag",
+      mimeType: "text/markdown",
+    },
+    async (uri, { tag }) => {
+      const name = decodeURIComponent(String(tag));
+      const results = await listAll({ tags: [name] });
       return {
-        content: [
+        contents: [
           {
-            type: "text",
-            text: `Error deleting learning: ${error instanceof Error ? error.message : String(error)}`,
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: `# Tag: ${name}\n\n${formatLearningLinks(results) || "No learnings."}`,
           },
         ],
-        isError: true,
       };
-    }
-  },
-);
+    },
+  );
 
-// Prompt: Learning guidelines
-server.registerPrompt(
-  "learning_guidelines",
-  {
-    title: "Learning Creation Guidelines",
-    description:
-      "Guidelines and best practices for creating well-structured learnings",
-    argsSchema: {},
-  },
-  () => ({
-    messages: [
-      {
-        role: "user",
-        content: {
-          type: "text",
-          text: LEARNING_GUIDELINES,
-        },
-      },
-    ],
-  }),
-);
+  // Resource subscriptions and change notifications
+  const subscriptions = new Set<string>();
 
-// Prompt: Learning template
-server.registerPrompt(
-  "create_learning",
-  {
-    title: "Create Learning Template",
-    description: "Interactive template for creating a new learning",
-    argsSchema: {
-      title: z.string().optional().describe("Learning title"),
-      topic: z.string().optional().describe("Learning topic"),
-      context: z.string().optional().describe("Initial context"),
-    },
-  },
-  ({ title, topic, context }) => LEARNING_TEMPLATE({ title, topic, context }),
-);
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Changes are batched briefly so a tool call and the watcher event it
+  // causes produce a single round of notifications
+  const pendingChanges = new Set<string>();
+  let notifyTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Notify clients that a learning was added, edited or removed
+   */
+  function notifyLearningChanged(scope: string, filename: string) {
+    pendingChanges.add(learningUri(scope, filename));
+    clearTimeout(notifyTimer);
+    notifyTimer = setTimeout(() => {
+      const changed = [...pendingChanges];
+      pendingChanges.clear();
+
+      server.sendResourceListChanged();
+
+      // Index resources may change with any learning
+      const updated = [...subscriptions].filter(
+        (uri) =>
+          changed.includes(uri) ||
+          uri.startsWith("learning://index/") ||
+          uri.startsWith("learning://topic/") ||
+          uri.startsWith("learning://tag/"),
+      );
+      for (const uri of updated) {
+        server.server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }, 100);
+  }
+
+  const watcher = new LearningsWatcher((dir, filename) => {
+    const scope = scopes.find((s) => s.path === dir);
+    if (scope) notifyLearningChanged(scope.name, filename);
+  });
+  for (const { path } of scopes) {
+    watcher.watch(path);
+  }
+
+  // Stop watching once the client disconnects
+  server.server.onclose = () => watcher.close();
+
+  return server;
+}
+
+const localLearningsFolder = settings.localLearningsFolder;
+
+// Commit batched changes before exiting
+const exit = async () => {
+  await flushScopes(repositories);
+  process.exit(0);
+};
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, exit);
+}
 
-// Start receiving messages on stdin and sending messages on stdout
-const transport = new StdioServerTransport();
-await server.connect(transport);
+if (options.transport === "http") {
+  // One shared server; each session may pick its own local learnings folder
+  // under --local-learnings-root
+  await serveHttp({
+    host: options.host,
+    port,
+    allowedHosts: options.allowedHost ?? [],
+    localFoldersRoot: options.localLearningsRoot
+      ? resolve(process.cwd(), options.localLearningsRoot)
+      : undefined,
+    createSession: (localFolder) =>
+      createServer(localFolder ?? resolve(process.cwd(), localLearningsFolder)),
+  });
+} else {
+  // Start receiving messages on stdin and sending messages on stdout
+  const server = await createServer(
+    resolve(process.cwd(), localLearningsFolder),
+  );
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  // The client closing stdin ends the session
+  process.stdin.once("end", exit);
+}
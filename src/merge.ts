@@ -0,0 +1,106 @@
+import { parseLearning, serializeLearning } from "./front-matter.js";
+import type { LearningMetadata } from "./repository.js";
+
+/**
+ * Three-way merge of a single value: take whichever side changed it,
+ * or undefined when both sides changed it differently
+ */
+function mergeValue<T>(
+  base: T | undefined,
+  ours: T,
+  theirs: T,
+): { value: T } | undefined {
+  const same = (a: T | undefined, b: T | undefined) =>
+    JSON.stringify(a) === JSON.stringify(b);
+
+  if (same(ours, theirs)) return { value: ours };
+  if (same(base, ours)) return { value: theirs };
+  if (same(base, theirs)) return { value: ours };
+  return undefined;
+}
+
+/**
+ * Three-way merge of a list as a set: keep additions from both sides and
+ * drop items either side removed
+ */
+function mergeList(
+  base: string[] | undefined,
+  ours: string[],
+  theirs: string[],
+): string[] {
+  const removed = new Set(
+    (base ?? []).filter(
+      (item) => !ours.includes(item) || !theirs.includes(item),
+    ),
+  );
+  return [...new Set([...ours, ...theirs])].filter(
+    (item) => !removed.has(item),
+  );
+}
+
+/**
+ * Later of two optional YYYY-MM-DD dates
+ */
+function latest(a?: string, b?: string): string | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Three-way merge of two conflicting versions of a learning file.
+ *
+ * Front matter is merged field by field: tags and related are merged as
+ * sets, `created` keeps the earliest date and `updated` the latest. Title,
+ * topic and content merge only when one side left them untouched. Returns
+ * the merged markdown (formatted like `ours`), or null when the versions
+ * cannot be merged automatically.
+ */
+export function mergeLearning(
+  base: string | undefined,
+  ours: string,
+  theirs: string,
+): string | null {
+  let parsedBase: ReturnType<typeof parseLearning> | undefined;
+  let parsedOurs: ReturnType<typeof parseLearning>;
+  let parsedTheirs: ReturnType<typeof parseLearning>;
+  try {
+    parsedBase = base === undefined ? undefined : parseLearning(base);
+    parsedOurs = parseLearning(ours);
+    parsedTheirs = parseLearning(theirs);
+  } catch {
+    return null;
+  }
+
+  const baseMeta = parsedBase?.metadata;
+  const oursMeta = parsedOurs.metadata;
+  const theirsMeta = parsedTheirs.metadata;
+
+  const title = mergeValue(baseMeta?.title, oursMeta.title, theirsMeta.title);
+  const topic = mergeValue(baseMeta?.topic, oursMeta.topic, theirsMeta.topic);
+  const content = mergeValue(
+    parsedBase?.content,
+    parsedOurs.content,
+    parsedTheirs.content,
+  );
+  if (!title || !topic || !content) {
+    return null;
+  }
+
+  const created =
+    oursMeta.created < theirsMeta.created
+      ? oursMeta.created
+      : theirsMeta.created;
+  const updated = latest(oursMeta.updated, theirsMeta.updated);
+
+  const metadata: LearningMetadata = {
+    title: title.value,
+    topic: topic.value,
+    tags: mergeList(baseMeta?.tags, oursMeta.tags, theirsMeta.tags),
+    created,
+    ...(updated ? { updated } : {}),
+    related: mergeList(baseMeta?.related, oursMeta.related, theirsMeta.related),
+  };
+
+  return serializeLearning(metadata, content.value, ours);
+}
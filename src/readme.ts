@@ -0,0 +1,49 @@
+import type { Learning } from "./repository.js";
+
+/** The generated index, at the top of the learnings folder */
+export const README_FILENAME = "README.md";
+
+/**
+ * Escape text for a markdown table cell
+ */
+function cell(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * The README index of a learnings folder: every learning grouped by topic,
+ * with its tags and created date, linking to the file. Topics and learnings
+ * are sorted so the output only changes when the learnings do.
+ */
+export function renderReadme(learnings: Learning[]): string {
+  const topics = new Map<string, Learning[]>();
+  for (const learning of learnings) {
+    const { topic } = learning.metadata;
+    topics.set(topic, [...(topics.get(topic) ?? []), learning]);
+  }
+
+  const sections = [...topics.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([topic, items]) => {
+      const rows = items
+        .sort(
+          (a, b) =>
+            a.metadata.title.localeCompare(b.metadata.title) ||
+            a.filename.localeCompare(b.filename),
+        )
+        .map(({ filename, metadata }) => {
+          const link = `[${cell(metadata.title)}](./${encodeURI(filename)})`;
+          const tags = metadata.tags.map((t) => `\`${cell(t)}\``).join(" ");
+          return `| ${link} | ${tags} | ${metadata.created ?? ""} |`;
+        });
+      return `## ${topic}\n\n| Learning | Tags | Created |\n| --- | --- | --- |\n${rows.join("\n")}`;
+    });
+
+  const count = `${learnings.length} learning${learnings.length === 1 ? "" : "s"} in ${topics.size} topic${topics.size === 1 ? "" : "s"}.`;
+  return `<!-- Generated by learnings. Edits are overwritten; run \`learnings index\` to rebuild. -->
+
+# Learnings
+
+${learnings.length === 0 ? "No learnings yet." : count}
+${sections.map((section) => `\n${section}\n`).join("")}`;
+}
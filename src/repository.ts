@@ -3,6 +3,7 @@ export interface LearningMetadata {
   topic: string;
   tags: string[];
   created: string;
+  updated?: string;
   related: string[];
 }
 
@@ -15,13 +16,70 @@ export interface Learning {
 export interface SearchOptions {
   topic?: string;
   tags?: string[];
+  /**
+   * Full-text query, ranked with BM25. Terms are OR-ed by default;
+   * join terms with `AND` to require all of them
+   */
   search?: string;
+  /**
+   * How `search` matches: "keyword" (BM25, default) or "semantic"
+   * (embedding similarity, finds learnings phrased differently)
+   */
+  mode?: "keyword" | "semantic";
 }
 
 export interface SearchResult {
   filename: string;
   title: string;
   topic: string;
+  tags: string[];
+  /** Relevance score, present when searching by text */
+  score?: number;
+  /** Excerpt with matched terms in `**bold**`, present when searching by text */
+  snippet?: string;
+}
+
+/**
+ * Learning filenames that arrived from the remote in a sync
+ */
+export interface SyncResult {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+/**
+ * A deleted learning waiting in the trash
+ */
+export interface TrashedLearning {
+  /** Identifies the item in the trash */
+  id: string;
+  /** Filename the learning had before it was deleted */
+  filename: string;
+  title?: string;
+  /** When it was deleted, ISO 8601 */
+  deletedAt: string;
+}
+
+/**
+ * A learning file that could not be parsed
+ */
+export interface ParseError {
+  filename: string;
+  message: string;
+}
+
+/**
+ * A committed version of a learning
+ */
+export interface Revision {
+  /** Full commit hash */
+  hash: string;
+  /** Author date, ISO 8601 */
+  date: string;
+  author: string;
+  /** Commit subject */
+  message: string;
 }
 
 /**
@@ -33,6 +91,12 @@ export interface Repository {
    */
   listFiles(): Promise<string[]>;
 
+  /**
+   * Every learning with its content, leaving out files that cannot be
+   * parsed (see `parseErrors`)
+   */
+  listLearnings(): Promise<Learning[]>;
+
   /**
    * Read a learning by filename
    */
@@ -48,12 +112,83 @@ export interface Repository {
   ): Promise<void>;
 
   /**
-   * Delete a learning
+   * Delete a learning, moving it to the trash
    */
   delete(filename: string): Promise<void>;
 
+  /**
+   * Rename a learning file, failing if `to` already exists
+   */
+  rename(from: string, to: string): Promise<void>;
+
+  /**
+   * Deleted learnings in the trash, most recently deleted first
+   */
+  listTrash(): Promise<TrashedLearning[]>;
+
+  /**
+   * Move a learning out of the trash, returning its filename
+   */
+  restoreFromTrash(id: string): Promise<string>;
+
+  /**
+   * Permanently delete one trashed learning, or all of them when no id is
+   * given, returning what was purged
+   */
+  purgeTrash(id?: string): Promise<TrashedLearning[]>;
+
   /**
    * Search learnings by criteria
    */
   search(options: SearchOptions): Promise<SearchResult[]>;
+
+  /**
+   * Learning files left out of searches because they could not be parsed
+   */
+  parseErrors(): Promise<ParseError[]>;
+
+  /**
+   * Rebuild the README.md index of the learnings, returning whether it
+   * changed
+   */
+  updateIndex(): Promise<boolean>;
+
+  /**
+   * Pull changes from the remote, if the repository has one
+   */
+  sync?(): Promise<SyncResult>;
+
+  /**
+   * Commit pending changes, if the repository defers commits.
+   * Returns the filenames that were committed.
+   */
+  commit?(): Promise<string[]>;
+
+  /**
+   * Commit the changes waiting for a batched commit now, if any, so they
+   * aren't lost when the process exits
+   */
+  flush?(): Promise<void>;
+
+  /**
+   * Make the writes, deletes and renames done by `fn` one change. Git-backed
+   * repositories commit them together, described by `message`.
+   */
+  batch?<T>(message: string, fn: () => Promise<T>): Promise<T>;
+
+  /**
+   * Revisions of a learning, newest first, if the repository keeps history
+   */
+  history?(filename: string): Promise<Revision[]>;
+
+  /**
+   * Unified diff of a learning between two revisions, or between a
+   * revision and the current file when `to` is omitted
+   */
+  diff?(filename: string, from: string, to?: string): Promise<string>;
+
+  /**
+   * Restore a learning to a previous revision, committing the restore
+   */
+  restore?(filename: string, revision: string): Promise<void>;
 }
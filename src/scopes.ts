@@ -0,0 +1,124 @@
+import type { RepositoryConfig } from "./config.js";
+import {
+  FileSystemRepository,
+  type FileSystemRepositoryOptions,
+} from "./FileSystemRepository.js";
+import {
+  GitHubRepository,
+  type GitHubRepositoryOptions,
+} from "./GitHubRepository.js";
+import { LearningsModule, type LearningsModuleOptions } from "./learnings.js";
+
+/** Scope of the learnings folder in the current directory */
+export const LOCAL_SCOPE = "local";
+
+/**
+ * Where learnings are stored: one of the configured repositories, or the
+ * local learnings folder
+ */
+export interface Scope {
+  name: string;
+  learnings: LearningsModule;
+  /** The learnings folder */
+  path: string;
+  readOnly: boolean;
+}
+
+/**
+ * Open the configured repositories, keeping their (priority) order.
+ * Git-backed ones commit and push their changes.
+ */
+export function openRepositories(
+  configs: RepositoryConfig[],
+  options: GitHubRepositoryOptions,
+  learningsOptions: LearningsModuleOptions = {},
+): Scope[] {
+  return configs.map((config) => {
+    const repositoryOptions = { ...options, readOnly: config.readOnly };
+    const repository = config.isGitRepo
+      ? new GitHubRepository(config.learningsPath, repositoryOptions)
+      : new FileSystemRepository(config.learningsPath, {
+          embeddingProvider: options.embeddingProvider,
+          trashRetentionDays: options.trashRetentionDays,
+          readOnly: config.readOnly,
+          readmeIndex: options.readmeIndex,
+        });
+    return {
+      name: config.name,
+      learnings: new LearningsModule(repository, learningsOptions),
+      path: config.learningsPath,
+      readOnly: config.readOnly,
+    };
+  });
+}
+
+/**
+ * Open the local learnings folder. It is never committed, and is created
+ * when the first learning is added.
+ */
+export function openLocal(
+  path: string,
+  options: FileSystemRepositoryOptions,
+  learningsOptions: LearningsModuleOptions = {},
+): Scope {
+  return {
+    name: LOCAL_SCOPE,
+    learnings: new LearningsModule(
+      new FileSystemRepository(path, options),
+      learningsOptions,
+    ),
+    path,
+    readOnly: false,
+  };
+}
+
+/**
+ * Commit the changes still waiting for a batched commit in each scope,
+ * before the process exits. Failures are reported, not thrown.
+ */
+export async function flushScopes(scopes: Scope[]): Promise<void> {
+  for (const { name, learnings } of scopes) {
+    await learnings
+      .flush()
+      .catch((error) =>
+        console.error(
+          `Commit of ${name} on exit failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+  }
+}
+
+/**
+ * The scope with the given name
+ */
+export function findScope(scopes: Scope[], name: string): Scope {
+  const scope = scopes.find((s) => s.name === name);
+  if (!scope) {
+    throw new Error(
+      `Unknown scope "${name}" (expected one of: ${scopes.map((s) => s.name).join(", ")})`,
+    );
+  }
+  return scope;
+}
+
+/**
+ * Where learnings go when no scope is given: the configured default scope,
+ * or else the first writable one
+ */
+export function defaultScope(scopes: Scope[], configured?: string): Scope {
+  if (configured) {
+    return findScope(scopes, configured);
+  }
+  const scope = scopes.find((s) => !s.readOnly) ?? scopes[0];
+  if (!scope) {
+    throw new Error("No learnings repository configured");
+  }
+  return scope;
+}
+
+/**
+ * Scope name for headings, e.g. "Global"
+ */
+export function scopeLabel(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
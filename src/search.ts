@@ -0,0 +1,256 @@
+import type { Learning } from "./repository.js";
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 length normalization */
+const B = 0.75;
+
+/**
+ * Field weights: a term in the title counts three times as much as in the body
+ */
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  topic: 2,
+  content: 1,
+} as const;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "do",
+  "for",
+  "from",
+  "how",
+  "i",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "the",
+  "this",
+  "to",
+  "what",
+  "when",
+  "where",
+  "why",
+  "with",
+]);
+
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Light suffix-stripping stemmer, so "rebasing", "rebased" and "rebases"
+ * all reduce to the same term
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+
+  let w = word;
+  if (w.endsWith("sses")) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith("ies")) {
+    w = `${w.slice(0, -3)}y`;
+  } else if (w.endsWith("s") && !/(ss|us|is)$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  for (const suffix of ["ingly", "edly", "ing", "ed", "ly", "ness", "ment"]) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+      w = w.slice(0, -suffix.length);
+      // Undouble: "committed" -> "committ" -> "commit"
+      if (/([^aeioulsz])\1$/.test(w)) w = w.slice(0, -1);
+      break;
+    }
+  }
+
+  if (w.endsWith("e") && w.length > 4) w = w.slice(0, -1);
+  return w;
+}
+
+/**
+ * Split text into lowercase words
+ */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Tokenize text into stemmed terms, dropping stop words
+ */
+export function tokenize(text: string): string[] {
+  return words(text)
+    .filter((w) => !STOP_WORDS.has(w))
+    .map(stem);
+}
+
+/**
+ * Parse a query into alternatives of required terms.
+ *
+ * Terms are OR-ed by default; `AND` between two terms requires both and
+ * binds tighter than `OR`: `rebase AND squash OR fixup` matches learnings
+ * with both "rebase" and "squash", or with "fixup".
+ */
+export function parseQuery(query: string): string[][] {
+  const groups: string[][] = [];
+  let joinNext = false;
+
+  for (const word of query.split(/\s+/)) {
+    if (word === "AND") {
+      joinNext = groups.length > 0;
+      continue;
+    }
+    if (word === "OR") {
+      joinNext = false;
+      continue;
+    }
+
+    const terms = tokenize(word);
+    if (terms.length === 0) continue;
+
+    const current = groups[groups.length - 1];
+    if (joinNext && current) {
+      current.push(...terms);
+    } else {
+      groups.push(terms);
+    }
+    joinNext = false;
+  }
+
+  return groups;
+}
+
+interface Document {
+  learning: Learning;
+  /** Weighted term frequencies across all fields */
+  frequencies: Map<string, number>;
+  /** Weighted document length */
+  length: number;
+}
+
+/**
+ * Tokenize each field of a learning and combine their weighted frequencies
+ */
+function analyze(learning: Learning): Document {
+  const fields: Record<Field, string> = {
+    title: learning.metadata.title,
+    tags: learning.metadata.tags.join(" "),
+    topic: learning.metadata.topic,
+    content: learning.content,
+  };
+
+  const frequencies = new Map<string, number>();
+  let length = 0;
+
+  for (const [field, text] of Object.entries(fields)) {
+    const weight = FIELD_WEIGHTS[field as Field];
+    for (const term of tokenize(text)) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+      length += weight;
+    }
+  }
+
+  return { learning, frequencies, length };
+}
+
+/**
+ * Build a short excerpt around the best matching line, with matched words
+ * wrapped in `**`
+ */
+export function snippet(content: string, terms: Set<string>): string {
+  const lines = content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#") && !line.startsWith("```"));
+
+  const matchCount = (line: string) =>
+    new Set(tokenize(line).filter((t) => terms.has(t))).size;
+
+  let best = lines[0] ?? "";
+  let bestCount = best ? matchCount(best) : 0;
+  for (const line of lines) {
+    const count = matchCount(line);
+    if (count > bestCount) {
+      best = line;
+      bestCount = count;
+    }
+  }
+
+  // Center the excerpt on the first match when the line is long
+  let excerpt = best;
+  if (excerpt.length > SNIPPET_LENGTH) {
+    const first = [...excerpt.matchAll(/[\p{L}\p{N}]+/gu)].find((m) =>
+      terms.has(stem(m[0].toLowerCase())),
+    );
+    const start = Math.max(0, (first?.index ?? 0) - SNIPPET_LENGTH / 4);
+    excerpt = `${start > 0 ? "…" : ""}${excerpt.slice(start, start + SNIPPET_LENGTH)}…`;
+  }
+
+  return excerpt.replace(/[\p{L}\p{N}]+/gu, (word) =>
+    terms.has(stem(word.toLowerCase())) ? `**${word}**` : word,
+  );
+}
+
+/**
+ * Rank learnings against a query with BM25 over weighted fields.
+ *
+ * Only learnings matching at least one query alternative are returned,
+ * best match first. Throws if the query has no searchable words, e.g. only
+ * stop words ("how to").
+ */
+export function rank(
+  learnings: Learning[],
+  query: string,
+): { learning: Learning; score: number; snippet: string }[] {
+  const groups = parseQuery(query);
+  const terms = new Set(groups.flat());
+  if (terms.size === 0) {
+    throw new Error(
+      `The search "${query}" has no searchable words: common words such as "how", "to" or "the" are ignored`,
+    );
+  }
+
+  const documents = learnings.map(analyze);
+  const averageLength =
+    documents.reduce((sum, d) => sum + d.length, 0) / (documents.length || 1);
+
+  const idf = new Map<string, number>();
+  for (const term of terms) {
+    const df = documents.filter((d) => d.frequencies.has(term)).length;
+    idf.set(term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5)));
+  }
+
+  const results = [];
+  for (const document of documents) {
+    const matches = groups.some((group) =>
+      group.every((term) => document.frequencies.has(term)),
+    );
+    if (!matches) continue;
+
+    let score = 0;
+    for (const term of terms) {
+      const tf = document.frequencies.get(term) ?? 0;
+      if (tf === 0) continue;
+      const norm = K1 * (1 - B + (B * document.length) / averageLength);
+      score += ((idf.get(term) ?? 0) * (tf * (K1 + 1))) / (tf + norm);
+    }
+
+    results.push({
+      learning: document.learning,
+      score,
+      snippet: snippet(document.learning.content, terms),
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
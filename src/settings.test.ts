@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadSettings, PROJECT_CONFIG_FILE, settingFlags } from "./settings.js";
+
+let tempDir: string;
+let userConfig: string;
+let projectConfig: string;
+let cwd: string;
+let env: NodeJS.ProcessEnv;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "learnings-settings-test-"));
+  userConfig = join(tempDir, "xdg", "learnings", "config.json");
+  projectConfig = join(tempDir, "project", PROJECT_CONFIG_FILE);
+  // Project config files are looked up from parent folders too
+  cwd = join(tempDir, "project", "src");
+  await mkdir(join(tempDir, "xdg", "learnings"), { recursive: true });
+  await mkdir(cwd, { recursive: true });
+  env = { XDG_CONFIG_HOME: join(tempDir, "xdg") };
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const writeJson = (path: string, value: unknown) =>
+  writeFile(path, JSON.stringify(value));
+
+test("flags override the environment, which overrides the config files", async () => {
+  await writeJson(userConfig, {
+    limit: 1,
+    commitDelay: 1,
+    syncInterval: 1,
+    trashRetention: 1,
+  });
+  await writeJson(projectConfig, {
+    limit: 2,
+    commitDelay: 2,
+    syncInterval: 2,
+  });
+  env.LEARNINGS_LIMIT = "3";
+  env.LEARNINGS_COMMIT_DELAY = "3";
+
+  const { settings, sources, files } = loadSettings(
+    { limit: "4" },
+    { cwd, env },
+  );
+
+  expect(settings).toMatchObject({
+    limit: 4,
+    commitDelay: 3,
+    syncInterval: 2,
+    trashRetention: 1,
+    commitStrategy: "immediate",
+  });
+  expect(sources).toMatchObject({
+    limit: "--limit",
+    commitDelay: "LEARNINGS_COMMIT_DELAY",
+    syncInterval: projectConfig,
+    trashRetention: userConfig,
+    commitStrategy: "default",
+  });
+  expect(files).toEqual([
+    { path: userConfig, found: true },
+    { path: projectConfig, found: true },
+  ]);
+});
+
+test("later sources replace repository lists instead of merging them", async () => {
+  await writeJson(userConfig, { repositories: ["/user/learnings"] });
+  env.LEARNINGS_REPOSITORIES =
+    "team=https://github.com/acme/learnings.git,priority=10; ;/shared,read-only;";
+
+  const fromEnv = loadSettings({ repository: [] }, { cwd, env });
+  expect(fromEnv.settings.repositories).toEqual([
+    {
+      name: "team",
+      repository: "https://github.com/acme/learnings.git",
+      priority: 10,
+    },
+    { repository: "/shared", readOnly: true },
+  ]);
+  expect(fromEnv.sources.repositories).toBe("LEARNINGS_REPOSITORIES");
+
+  const fromFlags = loadSettings({ repository: ["/mine"] }, { cwd, env });
+  expect(fromFlags.settings.repositories).toEqual([{ repository: "/mine" }]);
+  expect(fromFlags.sources.repositories).toBe("--repository");
+});
+
+test("--no-… flags turn off booleans set elsewhere", async () => {
+  await writeJson(projectConfig, { readmeIndex: true });
+  env.LEARNINGS_TOPIC_FOLDERS = "yes";
+
+  const { settings, sources } = loadSettings(
+    { readmeIndex: false },
+    { cwd, env },
+  );
+
+  expect(settings.readmeIndex).toBe(false);
+  expect(sources.readmeIndex).toBe("--no-readme-index");
+  expect(settings.topicFolders).toBe(true);
+  expect(sources.topicFolders).toBe("LEARNINGS_TOPIC_FOLDERS");
+});
+
+test("relative paths are resolved against their config file", async () => {
+  await writeJson(projectConfig, {
+    repositories: [
+      "notes",
+      { name: "docs", repository: "../docs" },
+      "~/learnings",
+      "team=https://github.com/acme/learnings.git,clone=clones/team",
+    ],
+    cloneLocation: "../clone",
+    localLearningsFolder: "docs/learnings",
+  });
+
+  const { settings } = loadSettings({}, { cwd, env });
+
+  expect(settings.repositories).toEqual([
+    { repository: join(tempDir, "project", "notes") },
+    { name: "docs", repository: join(tempDir, "docs") },
+    { repository: "~/learnings" },
+    {
+      name: "team",
+      repository: "https://github.com/acme/learnings.git",
+      cloneLocation: join(tempDir, "project", "clones", "team"),
+    },
+  ]);
+  expect(settings.cloneLocation).toBe(join(tempDir, "clone"));
+  expect(settings.localLearningsFolder).toBe(
+    join(tempDir, "project", "docs", "learnings"),
+  );
+
+  // Flags and environment variables are left as given
+  env.LEARNINGS_REPOSITORIES = "notes";
+  env.LEARNINGS_LOCAL_LEARNINGS_FOLDER = "notes/learnings";
+  const fromEnv = loadSettings({ cloneLocation: "clone" }, { cwd, env });
+  expect(fromEnv.settings.repositories).toEqual([{ repository: "notes" }]);
+  expect(fromEnv.settings.localLearningsFolder).toBe("notes/learnings");
+  expect(fromEnv.settings.cloneLocation).toBe("clone");
+});
+
+test("the CLI and the server take a flag for every setting", () => {
+  for (const program of ["cli.ts", "mcp-server.ts"]) {
+    const help = execFileSync(
+      process.execPath,
+      [join(import.meta.dir, program), "--help"],
+      { encoding: "utf-8" },
+    );
+    for (const flag of settingFlags()) {
+      expect(help).toMatch(new RegExp(`^\\s+${flag}[ ,]`, "m"));
+    }
+  }
+});
+
+test("invalid values name where they came from", async () => {
+  await writeJson(userConfig, { commitStrategy: "sometimes" });
+  expect(() => loadSettings({}, { cwd, env })).toThrow(
+    `Invalid settings in ${userConfig}: commitStrategy:`,
+  );
+
+  await writeJson(userConfig, {});
+  await writeJson(projectConfig, { unknownSetting: true });
+  expect(() => loadSettings({}, { cwd, env })).toThrow(
+    `Invalid settings in ${projectConfig}:`,
+  );
+
+  await writeFile(projectConfig, "{ not json");
+  expect(() => loadSettings({}, { cwd, env })).toThrow(
+    `Cannot read config file ${projectConfig}`,
+  );
+
+  await rm(projectConfig);
+  expect(() =>
+    loadSettings({}, { cwd, env: { ...env, LEARNINGS_LIMIT: "many" } }),
+  ).toThrow("Invalid settings in environment: limit:");
+  expect(() =>
+    loadSettings({ repository: ["/a,sometimes"] }, { cwd, env }),
+  ).toThrow(
+    'Invalid settings in flags: repositories.0: Unknown option "sometimes"',
+  );
+});
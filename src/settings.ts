@@ -0,0 +1,308 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { z } from "zod";
+import {
+  formatRepositorySpec,
+  isUrl,
+  parseRepositorySpec,
+  type RepositorySpec,
+} from "./config.js";
+
+/** Name of the per-project config file, looked up from the current directory */
+export const PROJECT_CONFIG_FILE = ".learnings.json";
+
+/** Prefix of the environment variables, e.g. LEARNINGS_COMMIT_STRATEGY */
+const ENV_PREFIX = "LEARNINGS_";
+
+const repositorySchema = z.union([
+  z.string().transform((value, ctx) => {
+    try {
+      return parseRepositorySpec(value);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return z.NEVER;
+    }
+  }),
+  z
+    .object({
+      name: z.string().optional(),
+      repository: z.string(),
+      cloneLocation: z.string().optional(),
+      readOnly: z.boolean().optional(),
+      priority: z.number().optional(),
+    })
+    .strict(),
+]);
+
+/**
+ * Everything that can be set in a config file, an environment variable or
+ * a flag. Keys match the flags, except `repositories` (`--repository`).
+ */
+const settingsSchema = z
+  .object({
+    repositories: z.array(repositorySchema),
+    cloneLocation: z.string(),
+    localLearningsFolder: z.string(),
+    /** Where new learnings go (default: the first writable repository) */
+    defaultScope: z.string(),
+    /** Results per listing (default: 6 in the server, 10 in the CLI) */
+    limit: z.number().int().positive(),
+    commitStrategy: z.enum(["immediate", "batched", "manual"]),
+    commitDelay: z.number().nonnegative(),
+    commitTemplate: z.string(),
+    commitFooter: z.string(),
+    commitAuthor: z.string(),
+    committer: z.string(),
+    signCommits: z.enum(["gpg", "ssh"]),
+    signingKey: z.string(),
+    syncInterval: z.number().nonnegative(),
+    trashRetention: z.number().nonnegative(),
+    topicFolders: z.boolean(),
+    /** Keep a README.md index in each repository's learnings folder */
+    readmeIndex: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+export type Settings = z.output<typeof settingsSchema>;
+export type SettingKey = keyof Settings;
+
+const DEFAULTS = {
+  repositories: [] as RepositorySpec[],
+  localLearningsFolder: "learnings",
+  commitStrategy: "immediate",
+  commitDelay: 30,
+  syncInterval: 10,
+  trashRetention: 30,
+  topicFolders: false,
+  readmeIndex: false,
+} satisfies Settings;
+
+export type ResolvedSettings = Settings &
+  Required<Pick<Settings, keyof typeof DEFAULTS>>;
+
+const SETTING_KEYS = Object.keys(settingsSchema.shape) as SettingKey[];
+const NUMBER_KEYS: SettingKey[] = [
+  "limit",
+  "commitDelay",
+  "syncInterval",
+  "trashRetention",
+];
+
+/**
+ * Effective settings, and where each value came from: "default", a config
+ * file, an environment variable or a flag
+ */
+export interface LoadedSettings {
+  settings: ResolvedSettings;
+  sources: Partial<Record<SettingKey, string>>;
+  /** Config files looked at, and whether they exist */
+  files: { path: string; found: boolean }[];
+}
+
+/**
+ * The user config file: `$XDG_CONFIG_HOME/learnings/config.json`, or
+ * `~/.config/learnings/config.json`
+ */
+export function userConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  return join(
+    env.XDG_CONFIG_HOME || join(homedir(), ".config"),
+    "learnings",
+    "config.json",
+  );
+}
+
+/**
+ * The nearest project config file, from `cwd` up to the filesystem root
+ */
+function findProjectConfig(cwd: string): string | undefined {
+  let dir = resolve(cwd);
+  while (true) {
+    const path = join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(path)) return path;
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Environment variable of a setting, e.g. LEARNINGS_TRASH_RETENTION
+ */
+function envName(key: SettingKey): string {
+  return ENV_PREFIX + key.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+}
+
+/**
+ * Flag of a setting, e.g. --trash-retention
+ */
+function flagName(key: SettingKey): string {
+  const name = key === "repositories" ? "repository" : key;
+  return `--${name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+}
+
+/**
+ * Turn the strings of environment variables and flags into setting values
+ */
+function coerce(key: SettingKey, value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  if (NUMBER_KEYS.includes(key)) return Number(value);
+  if (key === "topicFolders" || key === "readmeIndex") {
+    return /^(1|true|yes)$/i.test(value);
+  }
+  return value;
+}
+
+/**
+ * Validate one layer of settings, naming where they came from on error
+ */
+function parseLayer(values: Record<string, unknown>, origin: string) {
+  const result = settingsSchema.safeParse(values);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid settings in ${origin}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Resolve a relative path given in a config file against the file's folder.
+ * URLs, `~` paths and absolute paths are kept.
+ */
+function resolveFromFile(path: string, value: string): string {
+  return isUrl(value) || value.startsWith("~") || isAbsolute(value)
+    ? value
+    : resolve(dirname(path), value);
+}
+
+/**
+ * Read a config file. Relative paths (repositories, clone locations and the
+ * local learnings folder) are relative to the file.
+ */
+function readConfigFile(path: string): Settings {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  const settings = parseLayer(json as Record<string, unknown>, path);
+  settings.repositories = settings.repositories?.map((spec) => ({
+    ...spec,
+    repository: resolveFromFile(path, spec.repository),
+    ...(spec.cloneLocation !== undefined && {
+      cloneLocation: resolveFromFile(path, spec.cloneLocation),
+    }),
+  }));
+  for (const key of ["cloneLocation", "localLearningsFolder"] as const) {
+    const value = settings[key];
+    if (value !== undefined) {
+      settings[key] = resolveFromFile(path, value);
+    }
+  }
+  return settings;
+}
+
+/**
+ * The flag of every setting, e.g. `--trash-retention`
+ */
+export function settingFlags(): string[] {
+  return SETTING_KEYS.map(flagName);
+}
+
+/**
+ * Load the effective settings. Later sources override earlier ones, lists
+ * included: defaults, the user config file, the project config file
+ * (`.learnings.json`), `LEARNINGS_*` environment variables, then flags.
+ *
+ * `flags` are the parsed command line options; unknown keys are ignored.
+ * Several repositories in LEARNINGS_REPOSITORIES are separated by `;`.
+ */
+export function loadSettings(
+  flags: Record<string, unknown>,
+  options: { cwd?: string; env?: NodeJS.ProcessEnv } = {},
+): LoadedSettings {
+  const env = options.env ?? process.env;
+  const cwd = options.cwd ?? process.cwd();
+
+  const settings: Settings = { ...DEFAULTS };
+  const sources: Partial<Record<SettingKey, string>> = {};
+  for (const key of Object.keys(DEFAULTS) as SettingKey[]) {
+    sources[key] = "default";
+  }
+  const apply = (layer: Settings, source: (key: SettingKey) => string) => {
+    for (const key of SETTING_KEYS) {
+      if (layer[key] === undefined) continue;
+      Object.assign(settings, { [key]: layer[key] });
+      sources[key] = source(key);
+    }
+  };
+
+  const userPath = userConfigPath(env);
+  const projectPath = findProjectConfig(cwd);
+  const files = [
+    { path: userPath, found: existsSync(userPath) },
+    {
+      path: projectPath ?? join(resolve(cwd), PROJECT_CONFIG_FILE),
+      found: projectPath !== undefined,
+    },
+  ];
+  for (const file of files) {
+    if (file.found) {
+      apply(readConfigFile(file.path), () => file.path);
+    }
+  }
+
+  const fromEnv: Record<string, unknown> = {};
+  for (const key of SETTING_KEYS) {
+    const value = env[envName(key)];
+    // An empty commit footer means none
+    if (value === undefined || (value === "" && key !== "commitFooter")) {
+      continue;
+    }
+    fromEnv[key] =
+      key === "repositories"
+        ? value.split(";").filter((spec) => spec.trim() !== "")
+        : coerce(key, value);
+  }
+  apply(parseLayer(fromEnv, "environment"), envName);
+
+  const fromFlags: Record<string, unknown> = {};
+  for (const key of SETTING_KEYS) {
+    const value = flags[key === "repositories" ? "repository" : key];
+    if (value === undefined) continue;
+    // A repeatable flag given zero times
+    if (Array.isArray(value) && value.length === 0) continue;
+    fromFlags[key] = coerce(key, value);
+  }
+  apply(parseLayer(fromFlags, "flags"), (key) =>
+    fromFlags[key] === false ? `--no-${flagName(key).slice(2)}` : flagName(key),
+  );
+
+  return { settings: settings as ResolvedSettings, sources, files };
+}
+
+/**
+ * Settings as `key: value (source)` lines, for `learnings config show`
+ */
+export function formatSettings({ settings, sources }: LoadedSettings): string {
+  return SETTING_KEYS.map((key) => {
+    const value = settings[key];
+    const shown =
+      value === undefined
+        ? "(not set)"
+        : key === "repositories"
+          ? settings.repositories.map(formatRepositorySpec).join("; ") ||
+            "(none)"
+          : JSON.stringify(value);
+    return `${key}: ${shown}${sources[key] ? ` (${sources[key]})` : ""}`;
+  }).join("\n");
+}
@@ -0,0 +1,138 @@
+import type { Learning } from "./repository.js";
+import { tokenize } from "./search.js";
+
+/** Learnings at least this similar are reported as near-duplicates */
+export const DUPLICATE_THRESHOLD = 0.5;
+
+/** Words per content shingle */
+const SHINGLE_SIZE = 3;
+
+/**
+ * How much each part of a learning counts towards its similarity
+ */
+const WEIGHTS = {
+  title: 0.4,
+  tags: 0.2,
+  content: 0.4,
+} as const;
+
+/**
+ * Overlapping runs of words, so reworded or reordered text still shares
+ * most of its shingles while unrelated text on the same topic does not
+ */
+function shingles(text: string): Set<string> {
+  // Headings are the same in every learning (Context, Examples, ...)
+  const words = tokenize(text.replace(/^#+ .*$/gm, ""));
+  if (words.length < SHINGLE_SIZE) {
+    return new Set(words);
+  }
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return result;
+}
+
+/**
+ * Jaccard index of two sets, or undefined when both are empty
+ */
+function jaccard(a: Set<string>, b: Set<string>): number | undefined {
+  if (a.size === 0 && b.size === 0) return undefined;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Similarity of two learnings between 0 and 1, from title words, tags and
+ * content shingles. Parts both learnings leave empty are not counted.
+ */
+export function similarity(a: Learning, b: Learning): number {
+  const parts: [number | undefined, number][] = [
+    [
+      jaccard(
+        new Set(tokenize(a.metadata.title)),
+        new Set(tokenize(b.metadata.title)),
+      ),
+      WEIGHTS.title,
+    ],
+    [
+      jaccard(
+        new Set(a.metadata.tags.map((t) => t.toLowerCase())),
+        new Set(b.metadata.tags.map((t) => t.toLowerCase())),
+      ),
+      WEIGHTS.tags,
+    ],
+    [jaccard(shingles(a.content), shingles(b.content)), WEIGHTS.content],
+  ];
+
+  let score = 0;
+  let weight = 0;
+  for (const [value, w] of parts) {
+    if (value === undefined) continue;
+    score += value * w;
+    weight += w;
+  }
+  return weight === 0 ? 0 : score / weight;
+}
+
+/**
+ * Learnings similar to `learning`, most similar first
+ */
+export function findSimilar(
+  learning: Learning,
+  others: Learning[],
+  threshold = DUPLICATE_THRESHOLD,
+): { learning: Learning; score: number }[] {
+  return others
+    .map((other) => ({ learning: other, score: similarity(learning, other) }))
+    .filter(({ score }) => score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Group items into clusters of near-duplicates: two items share a cluster
+ * when a chain of similar pairs connects them. Only clusters of two or
+ * more are returned.
+ */
+export function duplicateClusters<T extends { learning: Learning }>(
+  items: T[],
+  threshold = DUPLICATE_THRESHOLD,
+): { items: T[]; score: number }[] {
+  // Union-find over item indexes
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] ?? i;
+    return i;
+  };
+  const best = new Map<number, number>();
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = items[i];
+      const b = items[j];
+      if (!a || !b) continue;
+      const score = similarity(a.learning, b.learning);
+      if (score < threshold) continue;
+      const root = find(i);
+      const other = find(j);
+      parent[other] = root;
+      best.set(
+        root,
+        Math.max(score, best.get(root) ?? 0, best.get(other) ?? 0),
+      );
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), item]);
+  });
+  return [...clusters.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ items: members, score: best.get(root) ?? 0 }))
+    .sort((a, b) => b.score - a.score);
+}